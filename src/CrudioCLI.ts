@@ -58,6 +58,9 @@ export default class CrudioCLI {
 			.option("-m, --datamodel <model_file>", "Data model definition file (JSON)")
 			.option("-i, --include <include_file>", "Merge an additional data model definition")
 			.option("-d, --diagram <output_file>", "Output a Mermaid diagram of the data model")
+			.option("-r, --seed <seed>", "Seed the random number generator so the same data is generated on every run")
+			.option("-l, --locale <locale>", "Locale used for names and addresses, or a weighted mix such as en-AU:70;de-DE:30")
+			.option("-t, --referenceDate <date>", "Date used as today by date generators, e.g. 2024-01-31")
 
 		this.config = this.command_line.parse(args).opts();
 		this.config.version = package_version;
@@ -0,0 +1,38 @@
+/**
+ * Default corpus used by the text generator when a data model does not provide its own corpus file
+ * @date 10/19/2026 - 4:20:00 PM
+ *
+ * @type {string}
+ */
+const CrudioCorpus: string = `
+Welcome to the latest update from our team. It has been a busy month and there is plenty of news to share.
+Our community continues to grow and we are grateful for the support of every member who joined this year.
+The new program was launched last week and the early feedback from participants has been very positive.
+We spoke with several local business owners about the challenges they face and the ideas they have for the future.
+Many of them told us that finding skilled staff is harder than it was a few years ago.
+Others said that online shopping has changed the way their customers find and buy products.
+The survey results show that most people want more flexible working arrangements and better access to training.
+Our research team has been looking closely at the data and the trends are becoming clear.
+Activity levels across the network remained steady during the quarter, with a small increase in new members.
+The board met on Tuesday to review the budget and agreed to invest in new technology for the office.
+We are planning a series of workshops on finance, health and technology over the coming months.
+Each workshop will be led by an experienced professional and will include practical exercises for the group.
+Volunteers have played an important role in the success of the program and we thank them for their time.
+The results of the pilot project will be published in a report later this year.
+A number of members asked how they can get involved, so we have added a new page to the website.
+The website now includes a calendar of events, a library of resources and a simple way to contact the team.
+Our partners in the education sector have offered to share their experience with the wider community.
+They believe that strong local networks help young people find work and build confident careers.
+The new office is close to public transport and has space for meetings, training and community events.
+We have also upgraded the software that manages bookings, so it is now easier to reserve a room.
+Customer service remains a priority and we are working to reduce the time it takes to answer every enquiry.
+The team reviewed the feedback from the last event and made several changes to improve the experience.
+Next month we will host a panel discussion on the future of work with guests from industry and government.
+Tickets are free for members and places are limited, so please register early if you would like to attend.
+The annual report shows that the organisation is in a healthy position and ready for the next stage of growth.
+We will continue to listen to our members and adapt our services to meet their changing needs.
+Thank you for reading this update and for being part of our community.
+We will be back with more news soon.
+`;
+
+export default CrudioCorpus;
@@ -0,0 +1,188 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Read lists of generator values from CSV, TSV or newline delimited text files
+ * @date 10/19/2026 - 6:30:00 PM
+ *
+ * @export
+ * @class CrudioDataFile
+ * @typedef {CrudioDataFile}
+ */
+export default class CrudioDataFile {
+	/**
+	 * Cache of values which have been read, keyed by file path and column
+	 * @date 10/19/2026 - 6:30:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @type {Record<string, string[]>}
+	 */
+	private static cache: Record<string, string[]> = {};
+
+	/**
+	 * Cache of records which have been read, keyed by file path
+	 * @date 10/19/2026 - 7:10:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @type {Record<string, Record<string, string>[]>}
+	 */
+	private static records: Record<string, Record<string, string>[]> = {};
+
+	/**
+	 * Load the values from a file
+	 * CSV (.csv) and TSV (.tsv) files must have a header row, and values are read from the named column, or the first column if no column is specified.
+	 * Any other file is read as one value per line. Empty values are ignored.
+	 * @date 10/19/2026 - 6:30:00 PM
+	 *
+	 * @public
+	 * @static
+	 * @param {string} filename
+	 * @param {?(string | number)} [column] column name, or zero based column number
+	 * @returns {string[]}
+	 */
+	public static Load(filename: string, column?: string | number): string[] {
+		const key = `${filename}|${column ?? ""}`;
+
+		if (!CrudioDataFile.cache[key]) {
+			if (!fs.existsSync(filename)) {
+				throw new Error(`Error: unable to find the data file '${filename}'`);
+			}
+
+			const content = fs.readFileSync(filename, "utf8").replace(/^\uFEFF/, "");
+			const extension = path.extname(filename).toLowerCase();
+			var values: string[];
+
+			if (extension === ".csv" || extension === ".tsv") {
+				values = CrudioDataFile.ReadColumn(filename, CrudioDataFile.ParseDelimited(content, extension === ".csv" ? "," : "\t"), column);
+			} else if (column !== undefined) {
+				throw new Error(`Error: data file '${filename}' has one value per line, so a column can not be specified. Use a .csv or .tsv file for columns`);
+			} else {
+				values = content.split(/\r?\n/).map(v => v.trim());
+			}
+
+			values = values.filter(v => v !== "");
+
+			if (values.length === 0) {
+				throw new Error(`Error: data file '${filename}' does not contain any values`);
+			}
+
+			CrudioDataFile.cache[key] = values;
+		}
+
+		return CrudioDataFile.cache[key];
+	}
+
+	/**
+	 * Load the rows of a CSV or TSV file as records, keyed by the column names in the header row
+	 * @date 10/19/2026 - 7:10:00 PM
+	 *
+	 * @public
+	 * @static
+	 * @param {string} filename
+	 * @returns {Record<string, string>[]}
+	 */
+	public static LoadRecords(filename: string): Record<string, string>[] {
+		if (!CrudioDataFile.records[filename]) {
+			const extension = path.extname(filename).toLowerCase();
+
+			if (extension !== ".csv" && extension !== ".tsv") {
+				throw new Error(`Error: data file '${filename}' must be a .csv or .tsv file with a header row`);
+			}
+
+			if (!fs.existsSync(filename)) {
+				throw new Error(`Error: unable to find the data file '${filename}'`);
+			}
+
+			const content = fs.readFileSync(filename, "utf8").replace(/^\uFEFF/, "");
+			const rows = CrudioDataFile.ParseDelimited(content, extension === ".csv" ? "," : "\t");
+			const header = (rows.shift() ?? []).map(h => h.trim());
+
+			if (rows.length === 0) {
+				throw new Error(`Error: data file '${filename}' does not contain any rows`);
+			}
+
+			CrudioDataFile.records[filename] = rows.map(row => {
+				const record: Record<string, string> = {};
+				header.map((column, index) => (record[column] = (row[index] ?? "").trim()));
+
+				return record;
+			});
+		}
+
+		return CrudioDataFile.records[filename];
+	}
+
+	/**
+	 * Get the values of a column, identified by the header row
+	 * @date 10/19/2026 - 6:30:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @param {string} filename
+	 * @param {string[][]} rows
+	 * @param {?(string | number)} [column]
+	 * @returns {string[]}
+	 */
+	private static ReadColumn(filename: string, rows: string[][], column?: string | number): string[] {
+		const header = rows.shift() ?? [];
+		const index = typeof column === "number" ? column : column === undefined ? 0 : header.indexOf(column);
+
+		if (index < 0 || index >= header.length) {
+			throw new Error(`Error: data file '${filename}' does not have a column '${column}'. Columns are ${header.join(", ")}`);
+		}
+
+		return rows.map(row => (row[index] ?? "").trim());
+	}
+
+	/**
+	 * Split delimited text into rows of fields, where fields may be quoted, e.g. "Washington, D.C."
+	 * @date 10/19/2026 - 6:30:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @param {string} content
+	 * @param {string} delimiter
+	 * @returns {string[][]}
+	 */
+	private static ParseDelimited(content: string, delimiter: string): string[][] {
+		const rows: string[][] = [];
+		var row: string[] = [];
+		var field = "";
+		var quoted = false;
+
+		for (var i = 0; i < content.length; i++) {
+			const c = content[i];
+
+			if (quoted) {
+				if (c === '"' && content[i + 1] === '"') {
+					field += '"';
+					i++;
+				} else if (c === '"') {
+					quoted = false;
+				} else {
+					field += c;
+				}
+			} else if (c === '"' && field === "") {
+				quoted = true;
+			} else if (c === delimiter) {
+				row.push(field);
+				field = "";
+			} else if (c === "\n" || c === "\r") {
+				if (c === "\r" && content[i + 1] === "\n") i++;
+				row.push(field);
+				if (row.some(f => f !== "")) rows.push(row);
+				row = [];
+				field = "";
+			} else {
+				field += c;
+			}
+		}
+
+		row.push(field);
+		if (row.some(f => f !== "")) rows.push(row);
+
+		return rows;
+	}
+}
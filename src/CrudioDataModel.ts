@@ -1,14 +1,32 @@
 import * as fs from "fs";
+import * as path from "path";
 import { stringify, parse } from "flatted";
-import { randomUUID } from "crypto";
-import { DateTime } from "luxon";
-
-import { ICrudioAssignment, ICrudioEntityDefinition, ICrudioFieldOptions, ICrudioGenerator, ICrudioSchemaDefinition, ICrudioTrigger, ISchemaRelationship } from "./CrudioTypes";
+import { DateTime, Duration } from "luxon";
+
+import {
+	ICrudioAssignment,
+	ICrudioEntityDefinition,
+	ICrudioFieldOptions,
+	ICrudioGenerationPass,
+	ICrudioGenerator,
+	ICrudioPoint,
+	ICrudioSchemaDefinition,
+	ICrudioSeriesValue,
+	ICrudioTrigger,
+	ISchemaRelationship,
+} from "./CrudioTypes";
+import CrudioDataFile from "./CrudioDataFile";
 import CrudioEntityDefinition from "./CrudioEntityDefinition";
 import CrudioEntityInstance from "./CrudioEntityInstance";
 import CrudioField from "./CrudioField";
+import CrudioFunctions, { CrudioFunction } from "./CrudioFunctions";
+import CrudioGeo from "./CrudioGeo";
+import CrudioLocales from "./CrudioLocales";
+import CrudioPlugins, { CrudioPluginGenerator } from "./CrudioPlugins";
+import CrudioRegex from "./CrudioRegex";
 import CrudioRelationship from "./CrudioRelationship";
 import CrudioTable from "./CrudioTable";
+import CrudioText from "./CrudioText";
 import CrudioUtils from "./CrudioUtils";
 import { CrudioJson } from "./CrudioJson";
 
@@ -67,6 +85,204 @@ export default class CrudioDataModel {
 	 */
 	public static DefaultNumberOfRowsToGenerate = 50;
 
+	/**
+	 * Date and time used as "now" by date and timestamp generators when a seed has been specified without a reference date,
+	 * so that the generated values do not change from one run to the next
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @public
+	 * @static
+	 * @type {string}
+	 */
+	public static SeededReferenceDate = "2022-01-01T00:00:00.000Z";
+
+	/**
+	 * Seed for the random number generator. When specified, the same data model will always generate the same data
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @private
+	 * @type {(string | number)}
+	 */
+	private seed: string | number = undefined;
+	/**
+	 * Seed for the random number generator. When specified, the same data model will always generate the same data
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @public
+	 * @type {(string | number)}
+	 */
+	public get Seed(): string | number {
+		return this.seed;
+	}
+	/**
+	 * Seed for the random number generator. When specified, the same data model will always generate the same data
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @public
+	 * @type {(string | number)}
+	 */
+	public set Seed(seed: string | number) {
+		this.seed = seed;
+	}
+
+	/**
+	 * Date used as "now" by date and timestamp generators, e.g. 2024-01-31, instead of the fixed date used by seeded data models
+	 * @date 10/20/2026 - 1:00:00 PM
+	 *
+	 * @private
+	 * @type {string}
+	 */
+	private referenceDate: string = undefined;
+	/**
+	 * The reference date, parsed when it is first used
+	 * @date 10/21/2026 - 9:30:00 AM
+	 *
+	 * @private
+	 * @type {DateTime}
+	 */
+	private reference_now: DateTime = undefined;
+	/**
+	 * Date used as "now" by date and timestamp generators, e.g. 2024-01-31, instead of the fixed date used by seeded data models
+	 * @date 10/20/2026 - 1:00:00 PM
+	 *
+	 * @public
+	 * @type {string}
+	 */
+	public get ReferenceDate(): string {
+		return this.referenceDate;
+	}
+	/**
+	 * Date used as "now" by date and timestamp generators, e.g. 2024-01-31, instead of the fixed date used by seeded data models
+	 * @date 10/20/2026 - 1:00:00 PM
+	 *
+	 * @public
+	 * @type {string}
+	 */
+	public set ReferenceDate(referenceDate: string) {
+		this.referenceDate = referenceDate;
+		this.reference_now = undefined;
+	}
+
+	/**
+	 * Locale, or weighted list of locales, used to generate names and addresses, e.g. en-AU or en-AU:70;de-DE:30
+	 * A locale is the name of a bundled locale pack, or the path of a JSON file which defines generators
+	 * @date 10/19/2026 - 4:55:00 PM
+	 *
+	 * @private
+	 * @type {string}
+	 */
+	private locale: string = undefined;
+	/**
+	 * Locale, or weighted list of locales, used to generate names and addresses, e.g. en-AU or en-AU:70;de-DE:30
+	 * @date 10/19/2026 - 4:55:00 PM
+	 *
+	 * @public
+	 * @type {string}
+	 */
+	public get Locale(): string {
+		return this.locale;
+	}
+	/**
+	 * Locale, or weighted list of locales, used to generate names and addresses, e.g. en-AU or en-AU:70;de-DE:30
+	 * @date 10/19/2026 - 4:55:00 PM
+	 *
+	 * @public
+	 * @type {string}
+	 */
+	public set Locale(locale: string) {
+		this.locale = locale;
+	}
+
+	/**
+	 * Generators of the selected locales, keyed by locale and generator name
+	 * @date 10/19/2026 - 4:55:00 PM
+	 *
+	 * @private
+	 * @type {Record<string, Record<string, ICrudioGenerator>>}
+	 */
+	private localePacks: Record<string, Record<string, ICrudioGenerator>> = {};
+
+	/**
+	 * Selected locales and their weights
+	 * @date 10/19/2026 - 4:55:00 PM
+	 *
+	 * @private
+	 * @type {{ values: string[]; weights?: number[] }}
+	 */
+	private localeList: { values: string[]; weights?: number[] } = null;
+
+	/**
+	 * Generator functions loaded from plugin modules, keyed by generator name
+	 * @date 10/19/2026 - 5:50:00 PM
+	 *
+	 * @private
+	 * @type {Record<string, { plugin: string; generator: CrudioPluginGenerator }>}
+	 */
+	private plugins: Record<string, { plugin: string; generator: CrudioPluginGenerator }> = {};
+
+	/**
+	 * Paths of the plugin modules which have been loaded, so that plugins can be loaded again when the data model is deserialised
+	 * @date 10/20/2026 - 12:10:00 PM
+	 *
+	 * @private
+	 * @type {string[]}
+	 */
+	private plugin_files: string[] = [];
+
+	/**
+	 * Token functions which are only available to this data model, keyed by lower case name, e.g. functions exported by plugins
+	 * @date 10/20/2026 - 12:10:00 PM
+	 *
+	 * @private
+	 * @type {Record<string, CrudioFunction>}
+	 */
+	private functions: Record<string, CrudioFunction> = {};
+
+	/**
+	 * Rows selected by tuple generators for the entity which is being generated, so that fields bind to the same row
+	 * @date 10/19/2026 - 7:10:00 PM
+	 *
+	 * @private
+	 * @type {{ entity: CrudioEntityInstance; rows: Record<string, any> }}
+	 */
+	private tuples: { entity: CrudioEntityInstance; rows: Record<string, any> } = { entity: null, rows: {} };
+
+	/**
+	 * The current attempt to generate the values of an entity
+	 * @date 10/20/2026 - 9:30:00 AM
+	 *
+	 * @private
+	 * @type {ICrudioGenerationPass}
+	 */
+	private pass: ICrudioGenerationPass = null;
+
+	/**
+	 * Entities whose values have been generated
+	 * @date 10/20/2026 - 9:30:00 AM
+	 *
+	 * @private
+	 * @type {WeakSet<CrudioEntityInstance>}
+	 */
+	private processed = new WeakSet<CrudioEntityInstance>();
+
+	/**
+	 * Tables which have been filled with entities
+	 * @date 10/20/2026 - 11:00:00 AM
+	 *
+	 * @private
+	 * @type {Set<CrudioTable>}
+	 */
+	private filled = new Set<CrudioTable>();
+
+	/**
+	 * Tables which are being filled, in the order they were started
+	 * @date 10/20/2026 - 11:00:00 AM
+	 *
+	 * @private
+	 * @type {CrudioTable[]}
+	 */
+	private filling: CrudioTable[] = [];
+
 	/**
 	 * Grouped data generator definitions, e.g. people: {firstname:"Bob;Jen", lastname:"Smith;jones"}...
 	 * @date 7/18/2022 - 3:39:38 PM
@@ -85,6 +301,15 @@ export default class CrudioDataModel {
 	 */
 	private tables: CrudioTable[] = [];
 
+	/**
+	 * Current values of sequence generators, keyed by generator name and scope
+	 * @date 10/19/2026 - 12:40:00 PM
+	 *
+	 * @private
+	 * @type {Record<string, number>}
+	 */
+	private sequences: Record<string, number> = {};
+
 	/**
 	 * Date format to use
 	 * @date 7/26/2022 - 12:53:10 PM
@@ -183,12 +408,26 @@ export default class CrudioDataModel {
 
 		Object.setPrototypeOf(schema, CrudioDataModel.prototype);
 
+		// the state of entity generation is not serialised
+		schema.processed = new WeakSet<CrudioEntityInstance>();
+		schema.pass = null;
+		schema.filled = new Set<CrudioTable>();
+		schema.filling = [];
+
+		// functions are not serialised, so load plugins again
+		schema.plugins = {};
+		schema.functions = {};
+		schema.LoadPlugins(schema.plugin_files ?? []);
+
 		schema.entityDefinitions.map((e: any) => {
 			Object.setPrototypeOf(e, CrudioEntityDefinition.prototype);
 
 			e.fields.map((f: any) => {
 				Object.setPrototypeOf(f, CrudioField.prototype);
 			});
+
+			// sets of unique values are not serialised, so start with empty sets
+			e.InitialiseUniqueKeyValues();
 		});
 
 		schema.Tables.map((t: CrudioTable) => {
@@ -217,6 +456,10 @@ export default class CrudioDataModel {
 			dataModel.triggers = [];
 		}
 
+		if (!dataModel.plugins) {
+			dataModel.plugins = [];
+		}
+
 		if (!dataModel.assign) {
 			dataModel.assign = [];
 		}
@@ -225,11 +468,24 @@ export default class CrudioDataModel {
 			dataModel.include = [include, ...dataModel.include];
 		}
 
+		if (dataModel.seed !== undefined) {
+			this.seed = dataModel.seed;
+		}
+
+		if (dataModel.locale !== undefined) {
+			this.locale = dataModel.locale;
+		}
+
+		if (dataModel.referenceDate !== undefined) {
+			this.referenceDate = dataModel.referenceDate;
+		}
+
 		dataModel.include.map((filename: any) => {
 			this.Merge(filename, dataModel);
 		});
 
 		this.LoadGenerators(dataModel.generators);
+		this.LoadPlugins(dataModel.plugins);
 		this.LoadTriggers(dataModel.triggers);
 		this.ExpandAllSnippets(dataModel);
 		this.LoadEntityDefinitions(dataModel);
@@ -246,6 +502,8 @@ export default class CrudioDataModel {
 	 */
 	private Merge(filename: string, datamodel: ICrudioSchemaDefinition) {
 		const input: ICrudioSchemaDefinition = CrudioJson.LoadJson(filename, this.filestack);
+		CrudioDataModel.ResolveDataFiles(input.generators, filename);
+		input.plugins = CrudioDataModel.ResolvePluginFiles(input.plugins, filename);
 
 		if (input.include) this.PreProcessDataModelDefinition(input);
 
@@ -265,6 +523,10 @@ export default class CrudioDataModel {
 			datamodel.triggers = [...datamodel.triggers, ...input.triggers];
 		}
 
+		if (input.plugins) {
+			datamodel.plugins = [...datamodel.plugins, ...input.plugins];
+		}
+
 		if (input.assign) {
 			datamodel.assign = [...datamodel.assign, ...input.assign];
 		}
@@ -387,6 +649,7 @@ export default class CrudioDataModel {
 	private CreateEntityDefinition(entityDefinition: ICrudioEntityDefinition, entityname: string): void {
 		var entityType: CrudioEntityDefinition = this.CreateEntityType(entityname, entityDefinition.abstract, false);
 		entityType.MaxRowCount = entityDefinition.count;
+		entityType.TimeSeries = entityDefinition.timeseries;
 
 		if (!entityDefinition.abstract && entityType.MaxRowCount == undefined) entityType.MaxRowCount = CrudioDataModel.DefaultNumberOfRowsToGenerate;
 
@@ -413,8 +676,24 @@ export default class CrudioDataModel {
 				generator: fieldSchema.generator,
 				sensitiveData: fieldSchema.sensitiveData === undefined ? false : fieldSchema.sensitiveData,
 				defaultValue: fieldSchema.default === undefined ? null : fieldSchema.default,
+				choices: fieldSchema.choices,
+				multi_choice: fieldSchema.multi_choice,
+				min_choices: fieldSchema.min_choices,
+				max_choices: fieldSchema.max_choices,
+				repeat: fieldSchema.repeat,
+				nullRate: fieldSchema.nullRate,
 			};
 
+			if (fieldOptions.nullRate !== undefined) {
+				if (typeof fieldOptions.nullRate !== "number" || fieldOptions.nullRate < 0 || fieldOptions.nullRate > 1) {
+					throw new Error(`Error: nullRate of ${entityname}.${fieldname} must be a number from 0 to 1`);
+				}
+
+				if (fieldOptions.isRequired && fieldOptions.nullRate > 0) {
+					throw new Error(`Error: ${entityname}.${fieldname} is required, so it can not have a nullRate`);
+				}
+			}
+
 			entityType.AddField(fieldname, fieldSchema.type ?? "string", fieldOptions);
 		}
 
@@ -432,6 +711,23 @@ export default class CrudioDataModel {
 			});
 		}
 
+		if ([entityType.TimeSeries, ...entityType.OneToManyRelationships.filter(r => r.HasCardinality || r.IsHierarchy)].filter(c => c).length > 1) {
+			throw new Error(`Error: entities of '${entityname}' can be created by a time series, a hierarchy, or a relationship which specifies min and max, but only one of these`);
+		}
+
+		(entityDefinition.unique ?? []).map(constraint => {
+			if (!Array.isArray(constraint) || constraint.length === 0) {
+				throw new Error(`Error: unique constraints of '${entityname}' must be lists of fields, e.g. [["firstname", "lastname", "Organisation"]]`);
+			}
+
+			constraint.map(part => {
+				if (!entityType.GetField(part) && !entityType.OneToManyRelationships.some(r => r.ToEntity === part)) {
+					throw new Error(`Error: unique constraint of '${entityname}' refers to '${part}', which is not a field or a one to many relationship`);
+				}
+			});
+		});
+
+		entityType.UniqueConstraints = entityDefinition.unique;
 		entityType.InitialiseUniqueKeyValues();
 	}
 
@@ -569,7 +865,9 @@ export default class CrudioDataModel {
 			e.relationships
 				.filter(r => !r.DefaultTargetQuery && !e.IsManyToManyJoin)
 				.map(r => {
-					if (r.RelationshipType === "one") {
+					if (r.IsSingle) {
+						this.JoinOneToOne(r);
+					} else if (r.RelationshipType === "one") {
 						this.JoinOneToMany(r);
 					}
 				});
@@ -587,6 +885,11 @@ export default class CrudioDataModel {
 		var sourceTable: CrudioTable = this.GetTableForEntityDefinition(r.FromEntity)!;
 		var targetTable: CrudioTable = this.GetTableForEntityDefinition(r.ToEntity)!;
 
+		// rows of a time series, rows created for each parent, and rows of a hierarchy are connected to their parent when they are created
+		if (sourceTable && (sourceTable.EntityDefinition.TimeSeries?.parent === r.ToEntity || sourceTable.EntityDefinition.ParentRelationship === r || r.IsHierarchy)) {
+			return;
+		}
+
 		if (sourceTable === null) {
 			throw new Error(`Can not find source '${r.FromEntity}'`);
 		}
@@ -597,10 +900,29 @@ export default class CrudioDataModel {
 
 		var index: number = 0;
 
+		// if the target rows were created from a weighted list, then select targets in proportion to their weights
+		const weights = targetTable.RowWeights && targetTable.RowWeights.length === targetTable.DataRows.length ? targetTable.RowWeights : null;
+
+		if (r.Required && targetTable.DataRows.length == 0 && sourceTable.DataRows.length > 0) {
+			throw new Error(`Error: ${r.Description} is required, but there are no ${targetTable.TableName} to connect to`);
+		}
+
 		sourceTable.DataRows.map((sourceRow: CrudioEntityInstance) => {
+			// optional relationships leave a share of entities without a related entity
+			if (r.FillRate < 1 && CrudioUtils.Random.Next() >= r.FillRate) return;
+
 			// row_num is intended to ensure every entity on the "many" side gets at least one
 			// entity assigned. so 1 user to 1 organisation, is an organisation with many users (at least one)
-			const row_num = index > targetTable.DataRows.length - 1 ? CrudioUtils.GetRandomNumber(0, targetTable.DataRows.length) : index++;
+			var row_num: number;
+
+			if (index <= targetTable.DataRows.length - 1) {
+				row_num = index++;
+			} else if (weights) {
+				row_num = CrudioUtils.GetWeightedRandomIndex(weights);
+			} else {
+				row_num = CrudioUtils.GetRandomNumber(0, targetTable.DataRows.length);
+			}
+
 			if (row_num < targetTable.DataRows.length) {
 				const targetRow = targetTable.DataRows[row_num];
 				this.ConnectRows(sourceRow, targetRow);
@@ -608,6 +930,37 @@ export default class CrudioDataModel {
 		});
 	}
 
+	/**
+	 * Connect each entity to a different related entity, so that every related entity is used once at most, e.g. user profile -> user
+	 * @date 10/20/2026 - 12:20:00 AM
+	 *
+	 * @private
+	 * @param {CrudioRelationship} r
+	 */
+	private JoinOneToOne(r: CrudioRelationship): void {
+		const sourceTable: CrudioTable = this.GetTableForEntityDefinition(r.FromEntity);
+		const targetTable: CrudioTable = this.GetTableForEntityDefinition(r.ToEntity);
+
+		if (!targetTable) {
+			throw new Error(`Can not find target '${r.ToEntity}'`);
+		}
+
+		// rows created for each parent are connected to their parent when they are created
+		if (sourceTable.EntityDefinition.ParentRelationship === r) return;
+
+		// optional relationships leave a share of entities without a related entity
+		const sources = r.FillRate < 1 ? sourceTable.DataRows.filter(() => CrudioUtils.Random.Next() < r.FillRate) : sourceTable.DataRows;
+		const targets = CrudioUtils.Shuffle(targetTable.DataRows);
+
+		if (r.Required && sources.length > targets.length) {
+			throw new Error(
+				`Error: ${r.Description} is required, but there are ${sources.length} ${sourceTable.TableName} and only ${targets.length} ${targetTable.TableName}, which can each be connected once`
+			);
+		}
+
+		sources.slice(0, targets.length).map((sourceRow, index) => this.ConnectRows(sourceRow, targets[index]));
+	}
+
 	/**
 	 * Connect entities through their relationships
 	 * @date 7/18/2022 - 3:39:38 PM
@@ -621,32 +974,85 @@ export default class CrudioDataModel {
 
 	/**
 	 * Process all data rows and connect entities to referenced enties, e.g. user -> organisations
+	 * Each pair of entities is connected once at most, and the number of connections of each source and target entity is kept within the bounds of the relationship
 	 * @date 7/18/2022 - 3:39:38 PM
 	 *
 	 * @private
 	 * @param {CrudioRelationship} r
 	 */
 	private JoinManyToMany(d: CrudioEntityDefinition): void {
+		const r = d.SourceRelationship;
 		var joinTable: CrudioTable = this.GetTableForEntityDefinition(d.Name);
-		var sourceTable: CrudioTable = this.GetTableForEntityDefinition(d.SourceRelationship.FromEntity);
-		var targetTable: CrudioTable = this.GetTableForEntityDefinition(d.SourceRelationship.ToEntity);
+		var sourceTable: CrudioTable = this.GetTableForEntityDefinition(r.FromEntity);
+		var targetTable: CrudioTable = this.GetTableForEntityDefinition(r.ToEntity);
 
 		const source_ids = sourceTable.DataRows.map(r => r.DataValues["id"]);
 		const target_ids = targetTable.DataRows.map(r => r.DataValues["id"]);
 
-		// Iterate through every entity in the source table, e.g.Blog
-		source_ids.map((source_id: string) => {
-			const options = [...target_ids];
-			const c = Math.min(options.length, d.SourceRelationship.NumberOfSeededRelations);
+		// number of targets each source is connected to, e.g. tags for each blog
+		const source_min = r.HasCardinality ? r.MinChildren : 0;
+		const source_max = r.HasCardinality ? r.MaxChildren : r.NumberOfSeededRelations ?? 0;
+		const target_min = r.MinTargetLinks;
+		const target_max = r.MaxTargetLinks;
+
+		if (source_min > target_ids.length && source_ids.length > 0) {
+			throw new Error(`Error: ${r.Description} - each of ${sourceTable.TableName} needs ${source_min} different ${targetTable.TableName}, but there are only ${target_ids.length}`);
+		}
+
+		if (target_ids.length * target_min > source_ids.length * Math.min(source_max, target_ids.length)) {
+			throw new Error(
+				`Error: ${r.Description} - ${target_ids.length} ${targetTable.TableName} need at least ${target_min} connections each, but ${source_ids.length} ${sourceTable.TableName} can have at most ${source_max} connections each`
+			);
+		}
+
+		if (source_ids.length * source_min > target_ids.length * target_max) {
+			throw new Error(
+				`Error: ${r.Description} - ${source_ids.length} ${sourceTable.TableName} need at least ${source_min} connections each, but ${target_ids.length} ${targetTable.TableName} can have at most ${target_max} connections each`
+			);
+		}
+
+		const wanted = source_ids.map(() => Math.min(target_ids.length, r.HasCardinality ? this.GetChildCount(r) : source_max));
+		const links: Set<number>[] = source_ids.map(() => new Set<number>());
+		const used: number[] = target_ids.map(() => 0);
+
+		const connect = (source: number, target: number) => {
+			links[source].add(target);
+			used[target]++;
+		};
+
+		// first connect every target to its least number of sources, preferring sources which need more targets
+		CrudioUtils.Shuffle(target_ids.map((id, t) => t)).map(t => {
+			while (used[t] < target_min) {
+				const candidates = source_ids.map((id, s) => s).filter(s => !links[s].has(t) && links[s].size < source_max);
+				const wanting = candidates.filter(s => links[s].size < wanted[s]);
+				const pool = wanting.length > 0 ? wanting : candidates;
+
+				if (pool.length === 0) {
+					throw new Error(`Error: ${r.Description} - unable to connect ${target_min} ${sourceTable.TableName} to every ${targetTable.EntityDefinition.Name}`);
+				}
+
+				connect(pool[CrudioUtils.GetRandomNumber(0, pool.length)], t);
+			}
+		});
+
+		// then connect every source, e.g. Blog, to the number of targets it needs, e.g. Tag, from targets which are not full
+		source_ids.map((id, s) => {
+			const options = target_ids.map((id, t) => t).filter(t => !links[s].has(t) && used[t] < target_max);
 
-			// add the required number of target objects, e.g. Tag
-			for (var i = 0; i < c; i++) {
-				const row_num = CrudioUtils.GetRandomNumber(0, options.length);
-				options.slice(row_num, 1);
+			while (links[s].size < wanted[s] && options.length > 0) {
+				const option = CrudioUtils.GetRandomNumber(0, options.length);
+				connect(s, options[option]);
+				options.splice(option, 1);
+			}
 
-				this.CreateManyToManyRow(joinTable, source_id, options[row_num]);
+			if (links[s].size < source_min) {
+				throw new Error(`Error: ${r.Description} - unable to connect ${source_min} ${targetTable.TableName} to every ${sourceTable.EntityDefinition.Name}`);
 			}
 		});
+
+		source_ids.map((source_id, s) => {
+			links[s].forEach(t => this.CreateManyToManyRow(joinTable, source_id, target_ids[t]));
+		});
 	}
 
 	/**
@@ -678,7 +1084,7 @@ export default class CrudioDataModel {
 			e.relationships
 				.filter(r => r.DefaultTargetQuery)
 				.map(r => {
-					if (r.RelationshipType === "one") {
+					if (r.RelationshipType === "one" || r.IsSingle) {
 						this.JoinNamedRelationships(r);
 					}
 				});
@@ -701,12 +1107,13 @@ export default class CrudioDataModel {
 
 		if (targetTable === null) throw new Error(`Can not find target '${r.ToEntity}'`);
 
-		const enumerated_table = this.GetTableForEntityDefinition(r.EnumeratedTable);
+		// relationships can specify only a default target, e.g. every user has a free desk
+		const enumerated_table = r.SingularRelationshipValues.length > 0 ? this.GetTableForEntityDefinition(r.EnumeratedTable) : null;
 
 		// process relationships where there is only one instance allowed, e.g. one user as CEO of an organisation
 
 		// for each organisation...
-		enumerated_table.DataRows.map(parent => {
+		(enumerated_table?.DataRows ?? []).map(parent => {
 			var source_index: number = 0;
 			const sourceRows = parent.DataValues[sourceTable.TableName];
 
@@ -734,18 +1141,28 @@ export default class CrudioDataModel {
 		});
 
 		// assign the remaining rows with the default named relationship, e.g. assign Staff to all other users
-		sourceTable.DataRows.filter((fr: any) => fr.skip === undefined || !fr.skip).map((sourceRow: CrudioEntityInstance) => {
-			const parts = r.DefaultTargetQuery.split(":");
-			const field = parts[0].trim();
-			const value = parts[1].trim();
+		const parts = r.DefaultTargetQuery.split(":");
+		const field = parts[0].trim();
+		const value = parts[1].trim();
 
-			const targetRow = targetTable.DataRows.filter(row => {
-				const f = row.DataValues[field];
-				return f === value;
-			})[0];
+		const remaining = sourceTable.DataRows.filter((fr: any) => fr.skip === undefined || !fr.skip);
+		var targetRows = targetTable.DataRows.filter(row => row.DataValues[field] === value);
 
-			this.ConnectRows(sourceRow, targetRow);
-		});
+		if (r.IsSingle) {
+			// in a one to one relationship each target is connected once at most, so each source gets a different target
+			targetRows = targetRows.filter(row => !row.DataValues[sourceTable.EntityDefinition.Name]);
+
+			if (r.Required && remaining.length > targetRows.length) {
+				throw new Error(
+					`Error: ${r.Description} is required, but there are ${remaining.length} ${sourceTable.TableName} and only ${targetRows.length} ${targetTable.TableName} with ${field} '${value}', which can each be connected once`
+				);
+			}
+
+			remaining.slice(0, targetRows.length).map((sourceRow, index) => this.ConnectRows(sourceRow, targetRows[index]));
+			return;
+		}
+
+		remaining.map((sourceRow: CrudioEntityInstance) => this.ConnectRows(sourceRow, targetRows[0]));
 	}
 
 	/**
@@ -769,6 +1186,12 @@ export default class CrudioDataModel {
 		// the source points to a single target record... user 1 -> 1 organisation
 		sourceRow.DataValues[targetTable.EntityDefinition.Name] = targetRow;
 
+		// in a one to one relationship the target also points to a single source record... user 1 -> 1 user profile
+		if (sourceRow.EntityDefinition.OneToManyRelationships.some(r => r.IsSingle && r.ToEntity === targetTable.EntityDefinition.Name)) {
+			targetRow.DataValues[sourceTable.EntityDefinition.Name] = sourceRow;
+			return;
+		}
+
 		// initialise all target entities with an empty array to receive referencing entities
 		if (!targetRow.DataValues[sourceTable.TableName] || targetRow.DataValues[sourceTable.TableName] === undefined) {
 			targetRow.DataValues[sourceTable.TableName] = [];
@@ -828,9 +1251,89 @@ export default class CrudioDataModel {
 	 */
 	public static FromJson(filename: string, autoPopulate = true, include: string = null): CrudioDataModel {
 		const json_object = CrudioJson.LoadJson(filename);
+		CrudioDataModel.ResolveDataFiles(json_object.generators, filename);
+		json_object.plugins = CrudioDataModel.ResolvePluginFiles(json_object.plugins, filename);
+		json_object.locale = CrudioDataModel.ResolveLocaleFiles(json_object.locale, filename);
+
 		return new CrudioDataModel(json_object, autoPopulate, include);
 	}
 
+	/**
+	 * Make the paths of data files and text corpus files used by generators relative to the data model file which defines the generators
+	 * @date 10/19/2026 - 6:30:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @param {ICrudioGenerator[]} generators
+	 * @param {string} filename
+	 */
+	private static ResolveDataFiles(generators: ICrudioGenerator[], filename: string): void {
+		(generators ?? [])
+			.filter(g => g.values && typeof g.values === "object")
+			.map(g => {
+				const values = g.values as Record<string, any>;
+
+				if (values.file) {
+					if (typeof values.file === "string") {
+						values.file = { path: values.file };
+					}
+
+					if (values.file.path && !path.isAbsolute(values.file.path)) {
+						values.file.path = path.join(path.dirname(filename), values.file.path);
+					}
+				}
+
+				if (values.tuple?.file && !path.isAbsolute(values.tuple.file)) {
+					values.tuple.file = path.join(path.dirname(filename), values.tuple.file);
+				}
+
+				if (values.text?.corpus && !path.isAbsolute(values.text.corpus)) {
+					values.text.corpus = path.join(path.dirname(filename), values.text.corpus);
+				}
+			});
+	}
+
+	/**
+	 * Make the paths of plugin modules relative to the data model file which loads the plugins
+	 * @date 10/20/2026 - 12:10:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @param {string[]} plugins
+	 * @param {string} filename
+	 * @returns {string[]}
+	 */
+	private static ResolvePluginFiles(plugins: string[], filename: string): string[] {
+		return plugins?.map(p => (path.isAbsolute(p) ? p : path.join(path.dirname(filename), p)));
+	}
+
+	/**
+	 * Make the paths of locale packs relative to the data model file which selects the locales, e.g. packs/en-NZ.json:70;en-AU:30
+	 * Bundled locales are unchanged
+	 * @date 10/21/2026 - 10:20:00 AM
+	 *
+	 * @private
+	 * @static
+	 * @param {string} locale
+	 * @param {string} filename
+	 * @returns {string}
+	 */
+	private static ResolveLocaleFiles(locale: string, filename: string): string {
+		if (!locale) return locale;
+
+		const list = CrudioUtils.ParseWeightedList(String(locale));
+		const is_file = (name: string) => !CrudioLocales[name] && !path.isAbsolute(name);
+
+		if (!list.values.some(is_file)) return locale;
+
+		return list.values
+			.map((name, i) => {
+				const resolved = is_file(name) ? path.join(path.dirname(filename), name) : name;
+				return `${resolved.replace(/:/g, "\\:")}:${list.weights[i]}`;
+			})
+			.join(";");
+	}
+
 	/**
 	 * Deserialise a schema definition from a text string
 	 * @date 7/18/2022 - 3:39:38 PM
@@ -889,9 +1392,9 @@ export default class CrudioDataModel {
 			output += `}\r`;
 
 			e.relationships
-				.filter(r => r.RelationshipType === "one")
+				.filter(r => r.RelationshipType === "one" || r.IsSingle)
 				.map(r => {
-					const rel = r.RelationshipType === "one" ? "}o--||" : "}o--o{";
+					const rel = r.IsSingle ? "|o--||" : r.RelationshipType === "one" ? "}o--||" : "}o--o{";
 					output += `${r.FromEntity} ${rel} ${r.ToEntity} : "has"\r`;
 				});
 		});
@@ -921,16 +1424,23 @@ export default class CrudioDataModel {
 	 * @public
 	 */
 	public FillDataTables(): void {
+		// reset the random number generator so the same seed always produces the same data
+		CrudioUtils.SetRandomSeed(this.seed);
+		this.LoadLocales();
+		this.sequences = {};
+		this.processed = new WeakSet<CrudioEntityInstance>();
+		this.filled = new Set<CrudioTable>();
+		this.filling = [];
+
 		this.ClearAllInMemoryTables();
 		this.CreateInMemoryDataTables();
+		this.entityDefinitions.map(e => e.InitialiseUniqueKeyValues());
 
 		// create data for each table, but skip abstract and many to many join tables
 		const tables = this.Tables.filter((t: CrudioTable) => !t.EntityDefinition.IsAbstract && !t.EntityDefinition.IsManyToManyJoin);
 
-		tables.map((t: CrudioTable) => {
-			// Only fill tables which have not yet been populated
-			if (t.DataRows.length == 0) this.FillTable(t);
-		});
+		// tables which are needed by other tables are filled first, and are not filled again
+		tables.map((t: CrudioTable) => this.FillTable(t));
 
 		// connect entities with basic one to many relationships
 		this.ConnectOneToManyRelationships();
@@ -939,6 +1449,9 @@ export default class CrudioDataModel {
 		// This will replace tokens in objects, allowing the user to place specific values in the object graph
 		this.ProcessAssignments();
 
+		// fail before generating values, if unique fields need more values than their generators can create
+		this.CheckUniqueValueSpace();
+
 		// we have to connect relationships first so that token processing can use generators that
 		// lookup values in related objects
 		this.ProcessTokensInAllTables();
@@ -951,10 +1464,33 @@ export default class CrudioDataModel {
 		// This must be done after token processing, because that is the step in the process where all
 		// value generators have executed, which enables the lookups to complete
 		this.ConnectDefaultRelationships();
+
+		// the foreign keys of required relationships are NOT NULL in the database
+		this.CheckRequiredRelationships();
+	}
+
+	/**
+	 * Check that every entity is connected to a related entity through its required relationships
+	 * @date 10/19/2026 - 11:20:00 PM
+	 *
+	 * @private
+	 */
+	private CheckRequiredRelationships(): void {
+		// many to many join tables store the keys of related entities, which are always set when rows are created
+		this.Tables.filter(t => !t.EntityDefinition.IsManyToManyJoin).map(table => {
+			table.EntityDefinition.OneToManyRelationships.filter(r => r.Required).map(r => {
+				const missing = table.DataRows.filter(row => !row.DataValues[r.ToEntity]).length;
+
+				if (missing > 0) {
+					throw new Error(`Error: ${r.Description} is required, but ${missing} of ${table.DataRows.length} ${table.TableName} are not connected to a ${r.ToEntity}`);
+				}
+			});
+		});
 	}
 
 	/**
 	 * Fill an in-memory datatable with entity instances whose fields are populated with generated data
+	 * Each table is filled once, so parent tables are filled before the tables which have entities for each parent, and are not replaced afterwards
 	 * @date 7/18/2022 - 3:39:38 PM
 	 *
 	 * @param {CrudioTable} table
@@ -962,20 +1498,65 @@ export default class CrudioDataModel {
 	 * @private
 	 */
 	private FillTable(table: CrudioTable): void {
-		var records: CrudioEntityInstance[] = [];
-		var count = 0;
-		var values: string[] = [];
+		// tables can also have been populated by triggers, e.g. users created for an organisation
+		if (this.filled.has(table) || table.DataRows.length > 0) return;
+
+		if (this.filling.includes(table)) {
+			throw new Error(
+				`Error: ${table.TableName} can not be filled, because its entities are created for each entity of a table which needs it first: ${[...this.filling, table]
+					.map(t => t.TableName)
+					.join(" -> ")}`
+			);
+		}
+
+		this.filling.push(table);
+		this.FillTableRows(table);
+		this.filling.pop();
+
+		this.filled.add(table);
+	}
+
+	/**
+	 * Create the entity instances of a table, for each parent entity, as a time series, as a hierarchy, or as a number of entities
+	 * @date 10/20/2026 - 11:00:00 AM
+	 *
+	 * @param {CrudioTable} table
+	 *
+	 * @private
+	 */
+	private FillTableRows(table: CrudioTable): void {
+		if (table.EntityDefinition.TimeSeries) {
+			this.FillTimeSeries(table);
+			return;
+		}
+
+		if (table.EntityDefinition.ParentRelationship) {
+			this.FillPerParent(table, table.EntityDefinition.ParentRelationship);
+			return;
+		}
+
+		if (table.EntityDefinition.HierarchyRelationship) {
+			this.FillHierarchy(table, table.EntityDefinition.HierarchyRelationship);
+			return;
+		}
+
+		var records: CrudioEntityInstance[] = [];
+		var count = 0;
+		var values: string[] = [];
 		const generator: string = table.EntityDefinition.MaxRowCount as string;
 
 		if (typeof table.EntityDefinition.MaxRowCount === "string") {
 			const g = this.GetGenerator(generator.replace(/\[|\]/g, ""));
-			const v = g.values;
-			values = v.split(";").filter(f => f && f.length > 0);
+			const list = this.GetWeightedList(g);
+			values = list.values;
 			count = values.length;
 
 			if (count == 0) {
-				throw new Error(`Error: Unable to determine entity count for ${table.TableName} using "${v}" `);
+				throw new Error(`Error: Unable to determine entity count for ${table.TableName} using "${JSON.stringify(g.values)}" `);
 			}
+
+			// retain the weights so that related entities are connected to these rows in the same proportions
+			table.RowWeights = list.weights;
 		} else if (typeof table.EntityDefinition.MaxRowCount === "number") {
 			count = table.EntityDefinition.MaxRowCount;
 		} else {
@@ -998,6 +1579,221 @@ export default class CrudioDataModel {
 		table.DataRows = records;
 	}
 
+	/**
+	 * Fill an in-memory datatable with child entities for each parent entity, e.g. 5 to 20 employees for each organisation
+	 * The number of rows is determined by the min, max and distribution of the relationship to the parent
+	 * @date 10/19/2026 - 10:40:00 PM
+	 *
+	 * @private
+	 * @param {CrudioTable} table
+	 * @param {CrudioRelationship} relationship
+	 */
+	private FillPerParent(table: CrudioTable, relationship: CrudioRelationship): void {
+		const parent_table = this.GetTableForEntityDefinition(relationship.ToEntity);
+
+		if (parent_table === table) {
+			throw new Error(`Error: ${relationship.Description} - min and max can not be used when an entity is related to itself`);
+		}
+
+		this.FillTable(parent_table);
+
+		const records: CrudioEntityInstance[] = [];
+
+		parent_table.DataRows.map(parent => {
+			const count = this.GetChildCount(relationship);
+
+			for (var c = 0; c < count; c++) {
+				const entity = this.CreateEntityInstance(table.EntityDefinition);
+
+				this.ConnectRows(entity, parent);
+				records.push(entity);
+				this.ProcessTriggersForEntity(entity);
+			}
+		});
+
+		table.DataRows = records;
+	}
+
+	/**
+	 * Fill an in-memory datatable with a tree of entities, e.g. categories and sub categories
+	 * Entities are created level by level, and each entity can only be connected to a parent on the level above, so the tree has no cycles
+	 * The number of rows is determined by the roots, depth and branching of the hierarchy
+	 * @date 10/19/2026 - 11:50:00 PM
+	 *
+	 * @private
+	 * @param {CrudioTable} table
+	 * @param {CrudioRelationship} relationship
+	 */
+	private FillHierarchy(table: CrudioTable, relationship: CrudioRelationship): void {
+		const hierarchy = relationship.Hierarchy;
+		const records: CrudioEntityInstance[] = [];
+
+		const create = (parent: CrudioEntityInstance | null): CrudioEntityInstance => {
+			const entity = this.CreateEntityInstance(table.EntityDefinition);
+
+			entity.DataValues[relationship.ParentName] = parent;
+			entity.DataValues[relationship.ChildrenName] = [];
+
+			if (parent) parent.DataValues[relationship.ChildrenName].push(entity);
+
+			records.push(entity);
+			this.ProcessTriggersForEntity(entity);
+
+			return entity;
+		};
+
+		var level: CrudioEntityInstance[] = [];
+		for (var r = 0; r < hierarchy.roots; r++) level.push(create(null));
+
+		for (var depth = 1; depth < hierarchy.depth; depth++) {
+			const next: CrudioEntityInstance[] = [];
+
+			level.map(parent => {
+				for (var b = 0; b < hierarchy.branching; b++) next.push(create(parent));
+			});
+
+			level = next;
+		}
+
+		table.DataRows = records;
+	}
+
+	/**
+	 * Get the number of child entities to create for a parent, between the min and max of the relationship
+	 * @date 10/19/2026 - 10:40:00 PM
+	 *
+	 * @private
+	 * @param {CrudioRelationship} relationship
+	 * @returns {number}
+	 */
+	private GetChildCount(relationship: CrudioRelationship): number {
+		const min = relationship.MinChildren;
+		const max = relationship.MaxChildren;
+
+		switch (relationship.Distribution) {
+			case "normal":
+				// most values fall within three standard deviations of the mean
+				const count = Math.round(CrudioUtils.GetRandomNormal((min + max) / 2, (max - min) / 6));
+				return Math.min(Math.max(count, min), max);
+
+			case "zipf":
+				// the chance of each number of children is proportional to 1 / rank, where min is the first rank
+				const weights: number[] = [];
+				for (var n = min; n <= max; n++) weights.push(1 / (n - min + 1));
+
+				return min + CrudioUtils.GetWeightedRandomIndex(weights);
+
+			default:
+				return CrudioUtils.GetRandomNumber(min, max + 1);
+		}
+	}
+
+	/**
+	 * Fill an in-memory datatable with a time series for each parent entity, e.g. readings taken every hour for each device
+	 * The number of rows is determined by the window and interval of the time series
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @private
+	 * @param {CrudioTable} table
+	 */
+	private FillTimeSeries(table: CrudioTable): void {
+		const definition = table.EntityDefinition;
+		const series = definition.TimeSeries;
+		const name = definition.Name;
+
+		if (!definition.OneToManyRelationships.some(r => r.ToEntity === series.parent)) {
+			throw new Error(`Error: the time series of '${name}' requires a one to many relationship to its parent '${series.parent}'`);
+		}
+
+		if (!series.field || !definition.GetField(series.field)) {
+			throw new Error(`Error: the time series of '${name}' must specify a field to receive the timestamp, found '${series.field}'`);
+		}
+
+		const upper = series.to ? CrudioUtils.ParseDate(series.to, this.date_format) : this.Now;
+		const lower = series.from ? CrudioUtils.ParseDate(series.from, this.date_format) : upper.minus({ days: series.days ?? 7 });
+		const interval = Duration.fromObject(series.interval ?? {}).toMillis();
+		const jitter = series.jitter ?? 0;
+
+		if (!lower.isValid || !upper.isValid || lower > upper) {
+			throw new Error(`Error: the time series of '${name}' has an invalid window from:${series.from} to:${series.to}. Use ISO dates, e.g. 2020-01-31`);
+		}
+
+		if (!(interval > 0)) {
+			throw new Error(`Error: the time series of '${name}' must specify an interval, e.g. { "minutes": 15 }`);
+		}
+
+		if (jitter < 0 || jitter > 1) {
+			throw new Error(`Error: the jitter of the time series of '${name}' must be a number from 0 to 1`);
+		}
+
+		const values = series.values ?? {};
+		Object.keys(values).map(field_name => {
+			if (!definition.GetField(field_name)) {
+				throw new Error(`Error: the time series of '${name}' has values for '${field_name}', which is not a field of the entity`);
+			}
+		});
+
+		const parent_table = this.GetTableForEntityDefinition(series.parent);
+		this.FillTable(parent_table);
+
+		const records: CrudioEntityInstance[] = [];
+
+		parent_table.DataRows.map(parent => {
+			const walks: Record<string, number> = {};
+
+			for (var i = 0, t = lower.toMillis(); t <= upper.toMillis(); i++, t += interval) {
+				const entity = this.CreateEntityInstance(definition);
+				const offset = jitter > 0 ? (CrudioUtils.Random.Next() - 0.5) * jitter * interval : 0;
+				const time = Math.min(Math.max(t + offset, lower.toMillis()), upper.toMillis());
+
+				entity.DataValues[series.field] = DateTime.fromMillis(time, { zone: "utc" }).toFormat(this.date_format);
+
+				Object.keys(values).map(field_name => {
+					entity.DataValues[field_name] = this.GetSeriesValue(values[field_name], walks, field_name, i, time - lower.toMillis());
+				});
+
+				this.ConnectRows(entity, parent);
+				records.push(entity);
+				this.ProcessTriggersForEntity(entity);
+			}
+		});
+
+		table.DataRows = records;
+	}
+
+	/**
+	 * Get the next value of a time series, which combines a random walk, a trend and a seasonal cycle, within the range of min and max
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @private
+	 * @param {ICrudioSeriesValue} spec
+	 * @param {Record<string, number>} walks current position of the random walk of each field, for one parent
+	 * @param {string} field_name
+	 * @param {number} index row number in the series
+	 * @param {number} elapsed milliseconds since the start of the window
+	 * @returns {number}
+	 */
+	private GetSeriesValue(spec: ICrudioSeriesValue, walks: Record<string, number>, field_name: string, index: number, elapsed: number): number {
+		const min = spec.min ?? -Infinity;
+		const max = spec.max ?? Infinity;
+		const clamp = (v: number) => Math.min(Math.max(v, min), max);
+
+		if (walks[field_name] === undefined) {
+			walks[field_name] = spec.start ?? (spec.min !== undefined && spec.max !== undefined ? (spec.min + spec.max) / 2 : spec.min ?? spec.max ?? 0);
+		} else if (spec.step) {
+			walks[field_name] = clamp(walks[field_name] + CrudioUtils.GetRandomNormal(0, spec.step));
+		}
+
+		var value = walks[field_name] + (spec.trend ?? 0) * index;
+
+		if (spec.amplitude) {
+			const period = Duration.fromObject(spec.period ?? { days: 1 }).toMillis();
+			value += spec.amplitude * Math.sin((2 * Math.PI * elapsed) / period);
+		}
+
+		return CrudioUtils.Round(clamp(value), spec.precision ?? 2);
+	}
+
 	/**
 	 * Clear all data from in-memory datatables
 	 * @date 7/18/2022 - 3:39:38 PM
@@ -1045,7 +1841,11 @@ export default class CrudioDataModel {
 	private CreateEntityInstance(entityType: CrudioEntityDefinition): CrudioEntityInstance {
 		var entity: CrudioEntityInstance = entityType.CreateInstance();
 		this.SetupEntityGenerators(entity);
-		entity.DataValues.id = randomUUID();
+		entity.DataValues.id = CrudioUtils.GetRandomUuid();
+
+		if (this.localeList) {
+			entity.Locale = this.ChooseLocale();
+		}
 
 		return entity;
 	}
@@ -1068,6 +1868,115 @@ export default class CrudioDataModel {
 
 	//#region Token Processing and value generation
 
+	/**
+	 * Load the generators of the selected locales
+	 * @date 10/19/2026 - 4:55:00 PM
+	 *
+	 * @private
+	 */
+	private LoadLocales(): void {
+		this.localePacks = {};
+		this.localeList = null;
+
+		if (!this.locale) return;
+
+		const list = CrudioUtils.ParseWeightedList(String(this.locale));
+
+		list.values.map(name => {
+			var generators: ICrudioGenerator[] = CrudioLocales[name];
+
+			if (!generators) {
+				if (!fs.existsSync(name)) {
+					throw new Error(`Error: unknown locale '${name}'. Use one of ${Object.keys(CrudioLocales).join(", ")}, or the path of a JSON file which defines generators`);
+				}
+
+				generators = CrudioJson.LoadJson(name).generators ?? [];
+			}
+
+			this.localePacks[name] = {};
+			generators.map(g => (this.localePacks[name][g.name] = g));
+		});
+
+		this.localeList = list;
+	}
+
+	/**
+	 * Choose one of the selected locales, in proportion to their weights
+	 * @date 10/19/2026 - 4:55:00 PM
+	 *
+	 * @private
+	 * @returns {string}
+	 */
+	private ChooseLocale(): string {
+		const list = this.localeList;
+
+		if (list.values.length === 1) return list.values[0];
+
+		const index = list.weights ? CrudioUtils.GetWeightedRandomIndex(list.weights) : CrudioUtils.GetRandomNumber(0, list.values.length);
+
+		return list.values[index];
+	}
+
+	/**
+	 * Load generator functions from plugin modules
+	 * @date 10/19/2026 - 5:50:00 PM
+	 *
+	 * @private
+	 * @param {string[]} plugins
+	 */
+	private LoadPlugins(plugins: string[]): void {
+		plugins.map(plugin => {
+			const { generators, functions } = CrudioPlugins.Load(plugin);
+
+			Object.keys(generators).map(name => {
+				const existing = this.plugins[name];
+
+				if (existing && existing.plugin !== plugin) {
+					throw new Error(`Error: generator '${name}' is exported by plugins '${existing.plugin}' and '${plugin}'`);
+				}
+
+				this.plugins[name] = { plugin, generator: generators[name] };
+			});
+
+			Object.keys(functions).map(name => this.RegisterFunction(name, functions[name]));
+
+			if (!this.plugin_files.includes(plugin)) this.plugin_files.push(plugin);
+		});
+	}
+
+	/**
+	 * Register a function which can be used in the tokens of this data model, e.g. [checksum(!code)], or replace a standard function
+	 * Functions are not serialised, so functions which are not exported by plugins have to be registered again when the data model is deserialised
+	 * @date 10/20/2026 - 12:10:00 PM
+	 *
+	 * @public
+	 * @param {string} name
+	 * @param {CrudioFunction} fn
+	 */
+	public RegisterFunction(name: string, fn: CrudioFunction): void {
+		this.functions[name.toLowerCase()] = fn;
+	}
+
+	/**
+	 * Call a generator function which was loaded from a plugin
+	 * @date 10/19/2026 - 5:50:00 PM
+	 *
+	 * @private
+	 * @param {string} generator_name
+	 * @param {(CrudioEntityInstance | null)} entity
+	 * @returns {*}
+	 */
+	private CallPlugin(generator_name: string, entity: CrudioEntityInstance | null): any {
+		const plugin = this.plugins[generator_name];
+
+		try {
+			return plugin.generator(entity, this, CrudioUtils.Random);
+		} catch (e: any) {
+			const entity_name = entity ? ` for entity '${entity.EntityDefinition.Name}'` : "";
+			throw new Error(`Error: generator '${generator_name}' in plugin '${plugin.plugin}' failed${entity_name} - ${e.message}`);
+		}
+	}
+
 	/**
 	 * Load generator definitions
 	 * @date 8/2/2022 - 12:32:13 PM
@@ -1123,159 +2032,670 @@ export default class CrudioDataModel {
 		//
 		// The temporary entity gets the generated value, and if any unique contraints are violated, it is discarded.
 
+		// an entity can already have been generated because a field of another entity refers to it
+		if (this.processed.has(entityInstance)) return;
+
 		const temporary_entity = new CrudioEntityInstance(entityInstance.EntityDefinition);
+		temporary_entity.Locale = entityInstance.Locale;
 		const keys = Object.keys(entityInstance.DataValues);
 
-		var maxtries = 1000;
+		// generating a related entity happens part way through generating another entity, which continues afterwards
+		const previous = { pass: this.pass, tuples: this.tuples };
+		this.processed.add(entityInstance);
 
-		while (maxtries-- > 0) {
-			var ok = true;
-			temporary_entity.DataValues = { ...entityInstance.DataValues };
+		try {
+			var maxtries = 1000;
 
-			for (var i = 0; i < keys.length; i++) {
-				const field_name = keys[i];
-				const field_value: string = temporary_entity.DataValues[field_name];
+			while (maxtries-- > 0) {
+				temporary_entity.DataValues = { ...entityInstance.DataValues };
 
-				if (typeof field_value === "string" && field_value.indexOf("[") >= 0) {
-					const detokenised_value = this.ReplaceTokens(field_value, temporary_entity);
-					temporary_entity.DataValues[field_name] = detokenised_value;
+				const pass: ICrudioGenerationPass = { entity: temporary_entity, ok: true, unique_values: [], generating: [], maxtries };
+				this.pass = pass;
 
-					if (detokenised_value.indexOf("[") >= 0) {
-						throw new Error(`Error: Detokenisation failed in Entity:${temporary_entity.EntityDefinition.Name} - ${field_name}`);
-					}
-					const entity_field = temporary_entity.EntityDefinition.GetField(field_name);
-
-					// keep track of unique field values
-					if (entity_field && entity_field.fieldOptions.isUnique) {
-						if (entityInstance.EntityDefinition.HasUniqueValue(field_name, detokenised_value)) {
-							if (maxtries == 0) {
-								throw new Error(
-									`Error: Failed to create unique value for ${entityInstance.EntityDefinition.Name}.${entity_field.fieldName}. Try to define a generator that will create more random values. Adding a random number component may help.`
-								);
-							}
-
-							ok = false;
-							break;
-						}
-
-						entityInstance.EntityDefinition.AddUniqueValue(field_name, detokenised_value);
+				// each attempt selects new rows from tuple generators
+				this.tuples = { entity: temporary_entity, rows: {} };
+
+				// leave optional fields empty, before other fields are generated, so that lookups of those fields are also empty
+				keys.map(field_name => {
+					const field = temporary_entity.EntityDefinition.GetField(field_name);
+
+					if (field && field.fieldOptions.nullRate > 0 && CrudioUtils.Random.Next() < field.fieldOptions.nullRate) {
+						temporary_entity.DataValues[field_name] = null;
 					}
-				} else {
-					// it's ok that the field is defined but there is no default value or generated value specified
+				});
+
+				for (var i = 0; i < keys.length && pass.ok; i++) {
+					this.GenerateFieldValue(pass, keys[i]);
 				}
-			}
 
-			if (ok) {
-				break;
+				if (pass.ok && this.AddUniqueCombinations(entityInstance, temporary_entity, maxtries)) {
+					break;
+				}
+
+				// release the unique values of the failed attempt, so they can be used by another entity
+				pass.unique_values.map(([field_name, value]) => entityInstance.EntityDefinition.RemoveUniqueValue(field_name, value));
 			}
+		} finally {
+			this.pass = previous.pass;
+			this.tuples = previous.tuples;
 		}
 
 		entityInstance.DataValues = temporary_entity.DataValues;
 	}
 
 	/**
-	 * Process all tokens in a specified field
-	 * @date 7/18/2022 - 3:39:38 PM
+	 * Generate the value of a field of the entity which is being generated, and check that unique fields have a value which has not been used
+	 * Fields are generated in order, or earlier when another field refers to them, e.g. [upper(!email)]
+	 * @date 10/20/2026 - 9:30:00 AM
 	 *
 	 * @private
-	 * @param {CrudioEntityInstance} entity
-	 * @param {string} fieldName
-	 * @param {boolean} clean
-	 * @returns {string}
+	 * @param {ICrudioGenerationPass} pass the current attempt to generate the entity
+	 * @param {string} field_name
 	 */
-	private ProcessTokensInField(entity: CrudioEntityInstance, fieldName: string, clean: boolean): string {
-		var value = entity.DataValues[fieldName];
+	private GenerateFieldValue(pass: ICrudioGenerationPass, field_name: string): void {
+		const entity = pass.entity;
+		const field_value: string = entity.DataValues[field_name];
+		const entity_field = entity.EntityDefinition.GetField(field_name);
 
-		if (!value) {
-			// we failed to get a value, but it's likely because we have a generator which is referencing a related entity, like organisation.name
-			value = this.GetEntityFieldValueFromPath(fieldName, entity);
+		if (entity_field && entity_field.IsArray && !Array.isArray(field_value)) {
+			entity.DataValues[field_name] = this.GetArrayValue(entity_field, entity);
+			return;
 		}
 
-		value = clean ? value.trim().replaceAll(" ", "").toLowerCase() : value;
+		if (typeof field_value !== "string" || field_value.indexOf("[") < 0) {
+			// it's ok that the field is defined but there is no default value or generated value specified
+			return;
+		}
 
-		return value;
+		if (pass.generating.includes(field_name)) {
+			throw new Error(`Error: fields of ${entity.EntityDefinition.Name} refer to each other: ${[...pass.generating, field_name].join(" -> ")}`);
+		}
+
+		pass.generating.push(field_name);
+		const detokenised_value = this.ReplaceTokens(field_value, entity);
+		pass.generating.pop();
+
+		entity.DataValues[field_name] = detokenised_value;
+
+		if (typeof detokenised_value === "string" && detokenised_value.indexOf("[") >= 0) {
+			throw new Error(`Error: Detokenisation failed in Entity:${entity.EntityDefinition.Name} - ${field_name}`);
+		}
+
+		// keep track of unique field values
+		if (entity_field && entity_field.fieldOptions.isUnique && detokenised_value !== null) {
+			const definition = entity.EntityDefinition;
+
+			if (definition.HasUniqueValue(field_name, detokenised_value)) {
+				if (pass.maxtries == 0) {
+					throw new Error(
+						`Error: Failed to create unique value for ${definition.Name}.${entity_field.fieldName}, when ${definition.UniqueValueCount(field_name)} values are in use. Try to define a generator that will create more random values. Adding a random number component may help.`
+					);
+				}
+
+				pass.ok = false;
+				return;
+			}
+
+			definition.AddUniqueValue(field_name, detokenised_value);
+			pass.unique_values.push([field_name, detokenised_value]);
+		}
 	}
 
 	/**
-	 * Replace all tokens with their generated values.
-	 * This works recursively where tokens substitute in additional tokens, e.g. [user_email] is replaced with [name]@[organisation].com
-	 * @date 7/18/2022 - 3:39:38 PM
+	 * Check that the generators of unique fields, and of unique combinations of fields, can create a different value for every entity
+	 * This reports every field which can not have enough values before any are generated, rather than after many attempts to find an unused value
+	 * @date 10/19/2026 - 10:05:00 PM
 	 *
 	 * @private
-	 * @param {string} fieldValue
-	 * @param {CrudioEntityInstance} entity
-	 * @returns {string}
 	 */
-	private ReplaceTokens(fieldValue: string, entity: CrudioEntityInstance | null = null): string {
-		do {
-			var tokens: string[] | null = fieldValue.match(/\[.*?\]+/g);
-			var value: any;
+	private CheckUniqueValueSpace(): void {
+		const problems: string[] = [];
 
-			if (tokens === null) {
-				// there are no tokens to process, just a hardcoded value in the entity definition, like, name: "Bob"
-				return fieldValue;
-			}
+		this.Tables.map(table => {
+			const definition = table.EntityDefinition;
 
-			var loop = false;
+			definition.UniqueFields.filter(f => !f.IsArray).map(field => {
+				// only count entities whose value is still to be generated, as values from count lists and assignments are already in place
+				const pending = table.DataRows.filter(r => r.DataValues[field.fieldName] === field.fieldOptions.generator).length;
+				const required = Math.ceil(pending * (1 - (field.fieldOptions.nullRate ?? 0)));
+				const available = this.EstimateFieldValueSpace(table, field.fieldName);
 
-			tokens.map(t => {
-				var token: string = t.replace(/\[|\]/g, "");
-				var fieldName: string = token;
+				if (required > 0 && required > available) {
+					problems.push(`${definition.Name}.${field.fieldName} needs ${required} unique values, but ${field.fieldOptions.generator} can create at most ${available}`);
+				}
+			});
 
-				// find parameter characters:
-				// ! : get field from context
-				// ~ : remove all spaces and convert to lower case
-				var params: string[] = fieldName.match(/^\?|!|~|\*/g) || [];
-				fieldName = fieldName.slice(params.length);
+			definition.UniqueConstraints.map(constraint => {
+				const required = table.DataRows.length;
+				const available = constraint.reduce((n, part) => n * this.EstimateFieldValueSpace(table, part), 1);
 
-				const lookup = params.indexOf("!") >= 0;
+				if (required > available) {
+					problems.push(`${definition.Name} needs ${required} unique combinations of ${constraint.join(", ")}, but can create at most ${available}`);
+				}
+			});
+		});
 
-				// ~ option means remove all spaces and convert to lower case. Useful to create email and domain names
-				// We don't clean when deferred otherwise we will change the case of field names used in generators
-				const clean = params.indexOf("~") >= 0;
+		if (problems.length > 0) {
+			throw new Error(`Error: generators can not create enough unique values. Add values to the generators, or create fewer entities.\n${problems.join("\n")}`);
+		}
+	}
 
-				var query = params.indexOf("?") >= 0;
+	/**
+	 * Estimate how many different values a field can have, or for a relationship, how many entities it can connect to
+	 * @date 10/19/2026 - 10:05:00 PM
+	 *
+	 * @private
+	 * @param {CrudioTable} table
+	 * @param {string} name field or related entity name
+	 * @returns {number}
+	 */
+	private EstimateFieldValueSpace(table: CrudioTable, name: string): number {
+		const field = table.EntityDefinition.GetField(name);
 
-				if (lookup) {
-					// get field value from current context
-					if (entity) {
-						value = this.ProcessTokensInField(entity, fieldName, clean);
-					} else {
-						throw new Error(`Error: entity must be specified when using '!' to lookup: ${fieldValue}`);
-					}
+		if (!field) {
+			return this.GetTableForEntityDefinition(name)?.DataRows.length ?? 0;
+		}
+
+		const generator = field.fieldOptions.generator;
+
+		// entities created from a count list already have one value each
+		if (generator && generator === table.EntityDefinition.MaxRowCount) return table.DataRows.length;
+
+		// fields without a generator are empty, and empty values are not compared
+		if (typeof generator !== "string" || field.IsArray) return Infinity;
+
+		return this.EstimateValueSpace(generator);
+	}
+
+	/**
+	 * Estimate how many different values a template can create, which is the product of the number of values each token can create,
+	 * e.g. "[firstname].[lastname]@[server]" creates as many values as the number of first names, times the number of last names, times the number of servers.
+	 * Tokens which can create an unlimited number of values, or whose values can not be counted in advance, such as uuid, regex and lookups of other fields, are Infinity.
+	 * @date 10/19/2026 - 10:05:00 PM
+	 *
+	 * @private
+	 * @param {string} template
+	 * @param {number} [depth=0]
+	 * @returns {number}
+	 */
+	private EstimateValueSpace(template: string, depth: number = 0): number {
+		const tokens: string[] = template.match(/\[.*?\]+/g) ?? [];
+
+		return tokens.reduce((n, t) => n * this.EstimateTokenValueSpace(t.replace(/\[|\]/g, ""), depth), 1);
+	}
+
+	/**
+	 * Estimate how many different values a token can create
+	 * When locales are selected, the values of each version of the generator are added together
+	 * @date 10/19/2026 - 10:05:00 PM
+	 *
+	 * @private
+	 * @param {string} token
+	 * @param {number} depth
+	 * @returns {number}
+	 */
+	private EstimateTokenValueSpace(token: string, depth: number): number {
+		const name = token.replace(/^~+/, "");
+
+		if (depth > 10 || this.plugins[name] || /^[!?*]/.test(name) || CrudioFunctions.ParseCall(name)) return Infinity;
+
+		const variants = (name: string) => [this.generators[name], ...Object.values(this.localePacks).map(p => p[name])].filter(g => g);
+		const generators = variants(name);
+
+		if (generators.length > 0) {
+			return generators.reduce((n, g) => n + this.EstimateGeneratorValueSpace(g, depth), 0);
+		}
+
+		// a column of a tuple generator, e.g. [addr.city]
+		if (name.includes(".")) {
+			const tuple_name = name.slice(0, name.indexOf("."));
+			const column = name.slice(tuple_name.length + 1);
+			const tuples = variants(tuple_name).filter(g => typeof g.values === "object" && (g.values as Record<string, any>).tuple);
+
+			if (tuples.length > 0) {
+				return tuples.reduce((n, g) => n + CrudioDataModel.CountDistinct(this.GetTupleRows(tuple_name, (g.values as Record<string, any>).tuple).map(r => r[column])), 0);
+			}
+		}
+
+		// the token is a list or range, e.g. [red;green;blue] or [1>100]
+		return CrudioDataModel.EstimateListValueSpace(name);
+	}
+
+	/**
+	 * Estimate how many different values a generator can create
+	 * @date 10/19/2026 - 10:05:00 PM
+	 *
+	 * @private
+	 * @param {ICrudioGenerator} generator
+	 * @param {number} depth
+	 * @returns {number}
+	 */
+	private EstimateGeneratorValueSpace(generator: ICrudioGenerator, depth: number): number {
+		if (generator.isJson) return Infinity;
+
+		if (generator.values && typeof generator.values === "object") {
+			const key = Object.keys(generator.values)[0];
+			const args = generator.values[key];
+
+			switch (key) {
+				case "weighted":
+					const list = this.GetWeightedList(generator);
+					return CrudioDataModel.CountDistinct(list.values.filter((v, i) => list.weights[i] > 0));
+
+				case "file":
+					return CrudioDataModel.CountDistinct(this.GetFileValues(generator.name, args));
+
+				case "tuple":
+					return this.GetTupleRows(generator.name, args).length;
+
+				case "timestamp":
+					return 1;
+
+				default:
+					return Infinity;
+			}
+		}
+
+		const content: string = (generator.values as string) ?? generator.name;
+
+		if (content.indexOf("[") >= 0) {
+			return this.EstimateValueSpace(content, depth + 1);
+		}
+
+		switch (content.split(" ")[0].toLowerCase()) {
+			case "uuid":
+			case "datetime":
+			case "regex":
+			case "sequence":
+			case "switch":
+			case "text":
+			case "geo":
+			case "normal":
+			case "lognormal":
+			case "exponential":
+			case "poisson":
+				return Infinity;
+
+			case "timestamp":
+				return 1;
+		}
+
+		return CrudioDataModel.EstimateListValueSpace(content);
+	}
+
+	/**
+	 * Count the values of a list, e.g. "red;green;blue", or a range, e.g. "1>100", ignoring values which have no chance of being selected
+	 * @date 10/19/2026 - 10:05:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @param {string} content
+	 * @returns {number}
+	 */
+	private static EstimateListValueSpace(content: string): number {
+		if (content.includes(";")) {
+			const list = CrudioUtils.ParseWeightedList(content);
+			return CrudioDataModel.CountDistinct(list.values.filter((v, i) => list.weights[i] > 0));
+		}
+
+		if (content.includes(">")) {
+			const vals: string[] = content.split(">");
+			const precision = Math.max(...vals.map(v => (v.includes(".") ? v.trim().split(".")[1].length : 0)));
+			const range = parseFloat(vals[1]) - parseFloat(vals[0]);
+
+			if (Number.isNaN(range)) return Infinity;
+
+			// decimal ranges are rounded, so both ends can be created, but integer ranges do not include the upper value
+			return precision > 0 ? Math.round(range * Math.pow(10, precision)) + 1 : Math.max(range, 1);
+		}
+
+		return 1;
+	}
+
+	/**
+	 * Count the values which are different when compared by the unique value cache
+	 * @date 10/19/2026 - 10:05:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @param {any[]} values
+	 * @returns {number}
+	 */
+	private static CountDistinct(values: any[]): number {
+		return new Set(values.filter(v => v !== null && v !== undefined).map(v => String(v).toLowerCase().trim())).size;
+	}
+
+	/**
+	 * Check the combinations of fields which must be unique, and record them when they are unique
+	 * When a combination is a duplicate, entities in the combination are replaced with other entities, so that the next attempt can succeed
+	 * @date 10/19/2026 - 9:10:00 PM
+	 *
+	 * @private
+	 * @param {CrudioEntityInstance} entityInstance the entity, whose relationships are changed if a combination is a duplicate
+	 * @param {CrudioEntityInstance} temporary_entity the generated values
+	 * @param {number} maxtries remaining attempts
+	 * @returns {boolean} true if all combinations are unique
+	 */
+	private AddUniqueCombinations(entityInstance: CrudioEntityInstance, temporary_entity: CrudioEntityInstance, maxtries: number): boolean {
+		const definition = entityInstance.EntityDefinition;
+		const combinations = definition.UniqueConstraints.map(constraint => ({
+			constraint,
+			name: CrudioEntityDefinition.GetConstraintName(constraint),
+			value: CrudioDataModel.GetUniqueCombination(constraint, temporary_entity),
+		}));
+
+		// like the database, combinations which contain an empty field are not compared
+		const duplicate = combinations.find(c => c.value !== null && definition.HasUniqueValue(c.name, c.value));
+
+		if (duplicate) {
+			if (maxtries == 0) {
+				throw new Error(
+					`Error: Failed to create a unique combination of ${duplicate.constraint.join(", ")} for ${definition.Name}. Try to define generators that will create more random values, or connect to more entities.`
+				);
+			}
+
+			duplicate.constraint.filter(part => !definition.GetField(part)).map(part => this.ReconnectRow(entityInstance, part));
+
+			return false;
+		}
+
+		combinations.filter(c => c.value !== null).map(c => definition.AddUniqueValue(c.name, c.value));
+
+		return true;
+	}
+
+	/**
+	 * Get the value of a combination of fields, where related entities are identified by their id, or null if any field is empty
+	 * @date 10/19/2026 - 9:10:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @param {string[]} constraint
+	 * @param {CrudioEntityInstance} entity
+	 * @returns {(string | null)}
+	 */
+	private static GetUniqueCombination(constraint: string[], entity: CrudioEntityInstance): string | null {
+		const values = constraint.map(part => {
+			const value = entity.DataValues[part];
+			return value && value.DataValues ? value.DataValues.id : value;
+		});
+
+		if (values.some(v => v === null || v === undefined)) return null;
+
+		return JSON.stringify(values.map(v => (typeof v === "object" ? JSON.stringify(v) : String(v))));
+	}
+
+	/**
+	 * Connect an entity to a different, randomly selected, related entity
+	 * @date 10/19/2026 - 9:10:00 PM
+	 *
+	 * @private
+	 * @param {CrudioEntityInstance} entity
+	 * @param {string} target_name name of the related entity, e.g. Organisation
+	 */
+	private ReconnectRow(entity: CrudioEntityInstance, target_name: string): void {
+		// rows of a time series, rows created for each parent, and rows of a hierarchy always belong to the parent they were created for
+		const definition = entity.EntityDefinition;
+		if ([definition.TimeSeries?.parent, definition.ParentRelationship?.ToEntity, definition.HierarchyRelationship?.ToEntity].includes(target_name)) return;
+
+		// the related entity of a one to one relationship can not be shared, so a combination which includes it is already unique
+		if (definition.OneToManyRelationships.some(r => r.IsSingle && r.ToEntity === target_name)) return;
+
+		const sourceTable = this.GetTableForEntityDefinition(entity.EntityDefinition.Name);
+		const targetTable = this.GetTableForEntityDefinition(target_name);
+
+		if (!targetTable || targetTable.DataRows.length === 0) return;
+
+		const current: CrudioEntityInstance = entity.DataValues[target_name];
+
+		if (current && Array.isArray(current.DataValues[sourceTable.TableName])) {
+			current.DataValues[sourceTable.TableName] = current.DataValues[sourceTable.TableName].filter((r: CrudioEntityInstance) => r !== entity);
+		}
+
+		const weights = targetTable.RowWeights && targetTable.RowWeights.length === targetTable.DataRows.length ? targetTable.RowWeights : null;
+		const row_num = weights ? CrudioUtils.GetWeightedRandomIndex(weights) : CrudioUtils.GetRandomNumber(0, targetTable.DataRows.length);
+
+		this.ConnectRows(entity, targetTable.DataRows[row_num]);
+	}
+
+	/**
+	 * Process all tokens in a specified field
+	 * @date 7/18/2022 - 3:39:38 PM
+	 *
+	 * @private
+	 * @param {CrudioEntityInstance} entity
+	 * @param {string} fieldName
+	 * @param {boolean} clean
+	 * @returns {string}
+	 */
+	private ProcessTokensInField(entity: CrudioEntityInstance, fieldName: string, clean: boolean): string {
+		var value = entity.DataValues[fieldName];
+
+		if (value === null) {
+			// the field has been left empty, see nullRate
+			return null;
+		}
+
+		if (value === undefined) {
+			// the entity has no such field, but it's likely because we have a generator which is referencing a related entity, like organisation.name
+			value = this.ResolveFieldValue(fieldName, entity);
+		} else if (typeof value === "string" && value.indexOf("[") >= 0) {
+			// the field has not been generated yet, so generate it now rather than repeat its generator
+			value = this.ResolveFieldValue(fieldName, entity);
+		}
+
+		if (value === null) {
+			// the field is empty, or is a field of a related entity which is not connected
+			return null;
+		}
+
+		// values such as 0 and false are not strings, so there is nothing to clean
+		value = clean && typeof value === "string" ? value.trim().replaceAll(" ", "").toLowerCase() : value;
+
+		return value;
+	}
+
+	/**
+	 * Replace all tokens with their generated values.
+	 * This works recursively where tokens substitute in additional tokens, e.g. [user_email] is replaced with [name]@[organisation].com
+	 * @date 7/18/2022 - 3:39:38 PM
+	 *
+	 * @private
+	 * @param {string} fieldValue
+	 * @param {CrudioEntityInstance} entity
+	 * @returns {*}
+	 */
+	private ReplaceTokens(fieldValue: string, entity: CrudioEntityInstance | null = null): any {
+		do {
+			var tokens: string[] | null = fieldValue.match(/\[.*?\]+/g);
+			var value: any;
+
+			if (tokens === null) {
+				// there are no tokens to process, just a hardcoded value in the entity definition, like, name: "Bob"
+				return fieldValue;
+			}
+
+			var loop = false;
+			var json_value: any = undefined;
+
+			tokens.map(t => {
+				var token: string = t.replace(/\[|\]/g, "");
+				var fieldName: string = token;
+
+				// function call, e.g. [upper(!lastname)]
+				const call = CrudioFunctions.ParseCall(token);
+
+				if (call) {
+					value = this.CallFunction(call.name, call.args, entity, token);
+					loop = loop || (typeof value === "string" && value.includes("[") && value.includes("]"));
+					fieldValue = fieldValue.replace(`[${token}]`, value);
+					return;
+				}
+
+				// find parameter characters:
+				// ! : get field from context
+				// ~ : remove all spaces and convert to lower case
+				// parameters are only found at the start of the token, so weighted lists, e.g. [Staff:80;Manager:20], are unchanged
+				var params: string[] = fieldName.match(/^[?!~*]*/)[0].split("");
+				fieldName = fieldName.slice(params.length);
+
+				const lookup = params.indexOf("!") >= 0;
+
+				// ~ option means remove all spaces and convert to lower case. Useful to create email and domain names
+				// We don't clean when deferred otherwise we will change the case of field names used in generators
+				const clean = params.indexOf("~") >= 0;
+
+				var query = params.indexOf("?") >= 0;
+
+				if (lookup) {
+					// get field value from current context
+					if (entity) {
+						value = this.ProcessTokensInField(entity, fieldName, clean);
+					} else {
+						throw new Error(`Error: entity must be specified when using '!' to lookup: ${fieldValue}`);
+					}
 				} else if (query) {
 					if (entity) value = `[${this.GetEntityFieldValueFromPath(fieldName, entity)}]`;
 					else throw new Error(`Error: entity must be specified when using '!' to lookup: ${fieldValue}`);
 				} else {
 					// use a generator
-					value = this.GetGeneratedValue(fieldName);
+					value = this.GetGeneratedValue(fieldName, entity);
 				}
 
-				if (value && clean) {
+				if (typeof value === "string" && clean) {
 					value = value.trim().replaceAll(" ", "").toLowerCase();
 				}
 
+				// repeat the process if any value contains more tokens, e.g. [address] is replaced with [house] [street]
+				loop = loop || (typeof value === "string" && value.includes("[") && value.includes("]"));
+
+				// a JSON generator creates an object, and a lookup of an empty field creates null, which becomes the value of the field
+				// when it is the only token
+				if (value === null || typeof value === "object") {
+					if (fieldValue === `[${token}]`) {
+						json_value = value;
+						return;
+					}
+
+					value = value === null ? "" : JSON.stringify(value);
+				}
+
 				fieldValue = fieldValue.replace(`[${token}]`, value);
 			});
 
-			// repeat the process if there are still more tokens in the string
-			loop = typeof value === "string" && value.includes("[") && value.includes("]");
+			if (json_value !== undefined) {
+				return json_value;
+			}
 		} while (loop);
 
 		return fieldValue;
 	}
 
+	/**
+	 * Call a function used in a token, e.g. [left(!firstname,1)], after evaluating its arguments
+	 * @date 10/19/2026 - 2:05:00 PM
+	 *
+	 * @private
+	 * @param {string} name
+	 * @param {string[]} args
+	 * @param {(CrudioEntityInstance | null)} entity
+	 * @param {string} token
+	 * @returns {*}
+	 */
+	private CallFunction(name: string, args: string[], entity: CrudioEntityInstance | null, token: string): any {
+		const values = args.map(a => this.EvaluateFunctionArgument(a, entity, token));
+
+		try {
+			return CrudioFunctions.Call(name, values, entity, this, this.functions);
+		} catch (e: any) {
+			const entity_name = entity ? ` in entity '${entity.EntityDefinition.Name}'` : "";
+			throw new Error(`${e.message} - token [${token}]${entity_name}`);
+		}
+	}
+
+	/**
+	 * Evaluate an argument of a function used in a token. Arguments can be:
+	 * 'text' or "text" : literal text
+	 * 123 : a number
+	 * !field or !Entity.field : the value of a field, where ~ removes spaces and converts to lower case
+	 * fn(...) : a nested function call
+	 * generator : the value of a generator, e.g. firstname
+	 * @date 10/19/2026 - 2:05:00 PM
+	 *
+	 * @private
+	 * @param {string} arg
+	 * @param {(CrudioEntityInstance | null)} entity
+	 * @param {string} token
+	 * @returns {*}
+	 */
+	private EvaluateFunctionArgument(arg: string, entity: CrudioEntityInstance | null, token: string): any {
+		if (/^(['"]).*\1$/s.test(arg)) {
+			return arg.slice(1, -1);
+		}
+
+		if (/^-?\d+(\.\d+)?$/.test(arg)) {
+			return Number(arg);
+		}
+
+		const call = CrudioFunctions.ParseCall(arg);
+
+		if (call) {
+			return this.CallFunction(call.name, call.args, entity, token);
+		}
+
+		var params: string[] = arg.match(/^[!~]+/g) || [];
+		const name = arg.slice(params.length > 0 ? params[0].length : 0);
+		const clean = params.length > 0 && params[0].includes("~");
+		var value: any;
+
+		if (params.length > 0 && params[0].includes("!")) {
+			if (!entity) {
+				throw new Error(`Error: entity must be specified when using '!' to lookup: [${token}]`);
+			}
+
+			value = this.ResolveFieldValue(name, entity);
+		} else {
+			value = this.ReplaceTokens(`[${name}]`, entity);
+		}
+
+		if (value && clean) {
+			value = String(value).trim().replaceAll(" ", "").toLowerCase();
+		}
+
+		return value;
+	}
+
 	/**
 	 * Get a value from a specified generator
 	 * @date 7/18/2022 - 3:39:38 PM
 	 *
 	 * @private
 	 * @param {string} generator_name
+	 * @param {CrudioEntityInstance} entity
 	 * @returns {*}
 	 */
-	public GetGeneratedValue(generator_name: string): any {
+	public GetGeneratedValue(generator_name: string, entity: CrudioEntityInstance | null = null): any {
 		if (!generator_name) throw new Error("generator must specify a standard or customer generator");
-		var generator = this.GetGenerator(generator_name);
+
+		if (this.plugins[generator_name]) {
+			return this.CallPlugin(generator_name, entity);
+		}
+
+		var generator = this.GetGenerator(generator_name, entity);
+
+		// a column of a tuple generator, e.g. [addr.city]
+		if (!generator && generator_name.includes(".")) {
+			const tuple_name = generator_name.slice(0, generator_name.indexOf("."));
+			const tuple = this.GetGenerator(tuple_name, entity);
+
+			if (tuple && typeof tuple.values === "object" && tuple.values.tuple) {
+				return this.GetTupleValue(tuple_name, tuple.values.tuple, entity, generator_name.slice(tuple_name.length + 1));
+			}
+		}
+
+		if (generator && generator.isJson) {
+			return this.GetJsonValue(generator, entity);
+		}
 
 		if (generator && generator.values) {
 			var json_args = null;
@@ -1291,15 +2711,65 @@ export default class CrudioDataModel {
 
 			switch (generator_values) {
 				case "uuid":
-					return randomUUID();
+					return CrudioUtils.GetRandomUuid();
 
 				case "datetime":
-					const dt = CrudioUtils.DateDuration(json_args);
-					return DateTime.utc().plus(dt).toFormat(this.date_format);
+					return this.GetDateTimeValue(generator_name, json_args ?? {}, entity);
 
 				case "timestamp":
-					const ts = new Date(Date.now()).toISOString().replace("Z", "");
+					const ts = this.Now.toISO({ includeOffset: false });
 					return ts;
+
+				case "regex":
+					const pattern = typeof json_args === "string" ? json_args : json_args?.pattern;
+
+					if (!pattern) {
+						throw new Error(`Error: generator '${generator_name}' must specify a regex pattern`);
+					}
+
+					try {
+						return CrudioRegex.Generate(pattern, json_args?.max_repeat);
+					} catch (e: any) {
+						throw new Error(`Error: generator '${generator_name}' - ${e.message}`);
+					}
+
+				case "sequence":
+					return this.GetSequenceValue(generator_name, json_args ?? {}, entity);
+
+				case "switch":
+					return this.GetSwitchValue(generator_name, json_args, entity);
+
+				case "text":
+					try {
+						return CrudioText.Load(json_args?.corpus).Generate(json_args ?? {});
+					} catch (e: any) {
+						throw new Error(`Error: generator '${generator_name}' - ${e.message}`);
+					}
+
+				case "geo":
+					return this.GetGeoValue(generator_name, json_args, entity);
+
+				case "tuple":
+					return { ...this.GetTupleRow(generator_name, json_args, entity) };
+
+				case "file":
+					const file_values = this.GetFileValues(generator_name, json_args);
+					return file_values[CrudioUtils.GetRandomNumber(0, file_values.length)];
+
+				case "weighted":
+					const list = this.GetWeightedList(generator);
+					return list.values[CrudioUtils.GetWeightedRandomIndex(list.weights)];
+
+				case "normal":
+				case "lognormal":
+				case "exponential":
+				case "poisson":
+					return this.GetDistributionValue(generator_name, generator_values, json_args);
+
+				default:
+					if (typeof generator.values === "object") {
+						throw new Error(`Error: unknown generator kind '${generator_values}' in generator '${generator_name}'`);
+					}
 			}
 		}
 
@@ -1317,21 +2787,687 @@ export default class CrudioDataModel {
 			value = CrudioUtils.GetRandomStringFromList(value);
 		} else if (value.includes(">")) {
 			var vals: string[] = value.split(">");
-			value = CrudioUtils.GetRandomNumber(parseInt(vals[0], 10), parseInt(vals[1], 10));
+
+			// if either end of the range has decimal places, then generate a decimal value with the same precision
+			const precision = Math.max(...vals.map(v => (v.includes(".") ? v.trim().split(".")[1].length : 0)));
+
+			if (precision > 0) {
+				value = CrudioUtils.GetRandomDecimal(parseFloat(vals[0]), parseFloat(vals[1]), precision);
+			} else {
+				value = CrudioUtils.GetRandomNumber(parseInt(vals[0], 10), parseInt(vals[1], 10));
+			}
 		}
 
 		return value;
 	}
 
 	/**
-	 * Get a data generator by name
-	 * @date 7/28/2022 - 1:30:00 PM
+	 * The current date and time, which is the reference date when one is specified
+	 * Seeded data models otherwise use a fixed date, so that the same data is generated on every run
+	 * @date 10/19/2026 - 9:05:00 AM
 	 *
 	 * @private
-	 * @param {string} generatorName
-	 * @returns {string}
+	 * @readonly
+	 * @type {DateTime}
 	 */
-	private GetGenerator(generatorName: string): ICrudioGenerator {
+	private get Now(): DateTime {
+		if (this.referenceDate !== undefined) {
+			if (!this.reference_now) {
+				const date = CrudioUtils.ParseDate(this.referenceDate, this.date_format);
+
+				if (!date.isValid) {
+					throw new Error(`Error: the reference date '${this.referenceDate}' is not a valid date. Use an ISO date, e.g. 2024-01-31`);
+				}
+
+				this.reference_now = date;
+			}
+
+			return this.reference_now;
+		}
+
+		if (this.seed === undefined) return DateTime.utc();
+
+		return DateTime.fromISO(CrudioDataModel.SeededReferenceDate, { zone: "utc" });
+	}
+
+	/**
+	 * Get the next value from a sequence, e.g. INV-000001, INV-000002...
+	 * Options:
+	 * start: first value, default 1
+	 * step: increment, default 1
+	 * format: mask where {000000} is replaced by the zero padded value, e.g. INV-{000000}
+	 * scope: "global" (default) for one sequence, "entity" for a sequence per entity type,
+	 * or the name of a relationship, e.g. "Organisation", for a sequence per parent entity
+	 * @date 10/19/2026 - 12:40:00 PM
+	 *
+	 * @private
+	 * @param {string} generator_name
+	 * @param {*} args
+	 * @param {CrudioEntityInstance} entity
+	 * @returns {(string | number)}
+	 */
+	private GetSequenceValue(generator_name: string, args: any, entity: CrudioEntityInstance): string | number {
+		const scope: string = args.scope ?? "global";
+		const start: number = args.start ?? 1;
+		const step: number = args.step ?? 1;
+		var key = `${generator_name}:`;
+
+		if (scope !== "global") {
+			if (!entity) {
+				throw new Error(`Error: generator '${generator_name}' is a sequence with scope '${scope}' and can only be used to generate entity field values`);
+			}
+
+			if (scope === "entity") {
+				key += entity.EntityDefinition.Name;
+			} else {
+				const parent: CrudioEntityInstance = entity.DataValues[scope];
+
+				if (!parent || !parent.DataValues) {
+					throw new Error(`Error: generator '${generator_name}' is a sequence scoped by '${scope}', which is not a relationship of entity type '${entity.EntityDefinition.Name}'`);
+				}
+
+				key += `${entity.EntityDefinition.Name}:${parent.DataValues.id}`;
+			}
+		}
+
+		const value: number = this.sequences[key] === undefined ? start : this.sequences[key] + step;
+		this.sequences[key] = value;
+
+		if (!args.format) return value;
+
+		return (args.format as string).replace(/\{(0+)\}/g, (match, zeros: string) => String(value).padStart(zeros.length, "0"));
+	}
+
+	/**
+	 * Create the array of values for a multi_choice or repeat field
+	 * multi_choice: select between min_choices and max_choices distinct values from choices, which is a list such as "a;b;c" or a list generator such as [tag]
+	 * repeat: use the field generator the specified number of times
+	 * @date 10/19/2026 - 3:50:00 PM
+	 *
+	 * @private
+	 * @param {CrudioField} field
+	 * @param {CrudioEntityInstance} entity
+	 * @returns {any[]}
+	 */
+	private GetArrayValue(field: CrudioField, entity: CrudioEntityInstance): any[] {
+		const options = field.fieldOptions;
+		const numeric = ["integer", "int", "number", "numeric"].includes(field.fieldType.toLowerCase());
+		const values: any[] = [];
+
+		if (options.multi_choice) {
+			const source: string = options.choices ?? options.generator;
+
+			if (!source) {
+				throw new Error(`Error: multi_choice field '${entity.EntityDefinition.Name}.${field.fieldName}' must specify choices`);
+			}
+
+			const list = /^\[[^\[\]]+\]$/.test(source)
+				? this.GetWeightedList(this.GetGenerator(source.replace(/\[|\]/g, ""), entity))
+				: CrudioUtils.ParseWeightedList(source);
+
+			// ignore empty and duplicate values, which are often created by a trailing ; in a list
+			var indexes = list.values.map((v, i) => i).filter(i => list.values[i] !== "" && list.values.indexOf(list.values[i]) === i);
+			const min = options.min_choices ?? 1;
+			const max = Math.min(options.max_choices ?? indexes.length, indexes.length);
+
+			if (min > max) {
+				throw new Error(
+					`Error: multi_choice field '${entity.EntityDefinition.Name}.${field.fieldName}' requires ${min} choices but only ${indexes.length} are available from '${source}'`
+				);
+			}
+
+			const count = CrudioUtils.GetRandomNumber(min, max + 1);
+
+			for (var c = 0; c < count; c++) {
+				const pick = list.weights ? CrudioUtils.GetWeightedRandomIndex(indexes.map(i => list.weights[i])) : CrudioUtils.GetRandomNumber(0, indexes.length);
+				values.push(list.values[indexes[pick]]);
+				indexes.splice(pick, 1);
+			}
+		} else {
+			if (!options.generator) {
+				throw new Error(`Error: repeat field '${entity.EntityDefinition.Name}.${field.fieldName}' must specify a generator`);
+			}
+
+			for (var r = 0; r < options.repeat; r++) {
+				values.push(this.ReplaceTokens(options.generator, entity));
+			}
+		}
+
+		return numeric ? values.map(v => Number(v)) : values;
+	}
+
+	/**
+	 * Create an object from a JSON template, where string leaves can contain tokens, e.g. { "systolic": "[bp_sys]" }
+	 * A leaf which is a single token keeps the type of the generated value, so numbers remain numbers and
+	 * tokens of other JSON generators create nested objects
+	 * @date 10/19/2026 - 3:20:00 PM
+	 *
+	 * @private
+	 * @param {ICrudioGenerator} generator
+	 * @param {(CrudioEntityInstance | null)} entity
+	 * @returns {*}
+	 */
+	private GetJsonValue(generator: ICrudioGenerator, entity: CrudioEntityInstance | null): any {
+		var template: any = generator.values;
+
+		if (typeof template === "string") {
+			try {
+				// templates written as strings may use ' in place of "
+				template = JSON.parse(template.replaceAll("'", '"'));
+			} catch (e: any) {
+				throw new Error(`Error: JSON generator '${generator.name}' has an invalid template - ${e.message}`);
+			}
+		}
+
+		const build = (node: any): any => {
+			if (Array.isArray(node)) {
+				return node.map(n => build(n));
+			}
+
+			if (node !== null && typeof node === "object") {
+				const result: Record<string, any> = {};
+				Object.keys(node).map(k => (result[k] = build(node[k])));
+				return result;
+			}
+
+			if (typeof node !== "string" || node.indexOf("[") < 0) {
+				return node;
+			}
+
+			const value: any = this.ReplaceTokens(node, entity);
+
+			if (typeof value === "string" && /^\[[^\[\]]+\]$/.test(node) && /^-?(0|[1-9]\d*)(\.\d+)?$/.test(value)) {
+				return Number(value);
+			}
+
+			return value;
+		};
+
+		return build(template);
+	}
+
+	/**
+	 * Get a random location as a GeoJSON point
+	 * Options:
+	 * bbox: [west, south, east, north], a location inside the bounding box
+	 * polygon: [[lon, lat], ...], a location inside the polygon
+	 * center: [lon, lat] with radius in metres, a location evenly spread within the radius
+	 * near: path to a location field, e.g. "DeviceSite.location", with radius in metres, a location clustered around the location of a related entity
+	 * precision: number of decimal places, default 6
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @private
+	 * @param {string} generator_name
+	 * @param {*} args
+	 * @param {CrudioEntityInstance} entity
+	 * @returns {ICrudioPoint}
+	 */
+	private GetGeoValue(generator_name: string, args: any, entity: CrudioEntityInstance): ICrudioPoint {
+		if (!args || typeof args !== "object") {
+			throw new Error(`Error: generator '${generator_name}' must specify bbox, polygon, center or near`);
+		}
+
+		var location: number[];
+
+		try {
+			if (args.near) {
+				if (!entity) {
+					throw new Error(`near '${args.near}' can only be used to generate entity field values`);
+				}
+
+				const center = this.ResolveFieldValue(args.near, entity);
+
+				if (!CrudioGeo.IsPoint(center)) {
+					throw new Error(`near '${args.near}' is not a location`);
+				}
+
+				location = CrudioGeo.Near(center.coordinates, args.radius ?? 1000);
+			} else if (args.bbox) {
+				location = CrudioGeo.InBox(args.bbox);
+			} else if (args.polygon) {
+				location = CrudioGeo.InPolygon(args.polygon);
+			} else if (args.center) {
+				location = CrudioGeo.InRadius(args.center, args.radius ?? 1000);
+			} else {
+				throw new Error("bbox, polygon, center or near must be specified");
+			}
+		} catch (e: any) {
+			throw new Error(`Error: generator '${generator_name}' - ${e.message}`);
+		}
+
+		return CrudioGeo.Point(location[0], location[1], args.precision ?? 6);
+	}
+
+	/**
+	 * Get a column from the row selected by a tuple generator
+	 * @date 10/19/2026 - 7:10:00 PM
+	 *
+	 * @private
+	 * @param {string} generator_name
+	 * @param {*} args
+	 * @param {CrudioEntityInstance} entity
+	 * @param {string} column
+	 * @returns {*}
+	 */
+	private GetTupleValue(generator_name: string, args: any, entity: CrudioEntityInstance, column: string): any {
+		const row = this.GetTupleRow(generator_name, args, entity);
+
+		if (!(column in row)) {
+			throw new Error(`Error: tuple generator '${generator_name}' does not have a column '${column}'. Columns are ${Object.keys(row).join(", ")}`);
+		}
+
+		return row[column];
+	}
+
+	/**
+	 * Select a row from a tuple generator. The same row is used for every field of the entity which is being generated.
+	 * Options:
+	 * rows: array of objects, e.g. [{ "city": "Sydney", "state": "NSW", "postcode": "2000" }]
+	 * file: CSV or TSV file with a header row, relative to the data model file
+	 * @date 10/19/2026 - 7:10:00 PM
+	 *
+	 * @private
+	 * @param {string} generator_name
+	 * @param {*} args
+	 * @param {CrudioEntityInstance} entity
+	 * @returns {Record<string, any>}
+	 */
+	private GetTupleRow(generator_name: string, args: any, entity: CrudioEntityInstance): Record<string, any> {
+		if (entity && this.tuples.entity === entity && this.tuples.rows[generator_name]) {
+			return this.tuples.rows[generator_name];
+		}
+
+		const rows = this.GetTupleRows(generator_name, args);
+		const row = rows[CrudioUtils.GetRandomNumber(0, rows.length)];
+
+		if (entity) {
+			if (this.tuples.entity !== entity) this.tuples = { entity, rows: {} };
+			this.tuples.rows[generator_name] = row;
+		}
+
+		return row;
+	}
+
+	/**
+	 * Get the rows of a tuple generator
+	 * @date 10/19/2026 - 10:05:00 PM
+	 *
+	 * @private
+	 * @param {string} generator_name
+	 * @param {*} args
+	 * @returns {Record<string, any>[]}
+	 */
+	private GetTupleRows(generator_name: string, args: any): Record<string, any>[] {
+		var rows: Record<string, any>[];
+
+		try {
+			rows = args?.file ? CrudioDataFile.LoadRecords(args.file) : args?.rows;
+		} catch (e: any) {
+			throw new Error(`Error: generator '${generator_name}' - ${e.message}`);
+		}
+
+		if (!Array.isArray(rows) || rows.length === 0) {
+			throw new Error(`Error: tuple generator '${generator_name}' must specify a list of rows, or a CSV or TSV file`);
+		}
+
+		return rows;
+	}
+
+	/**
+	 * Get the list of values which a generator reads from a file
+	 * Options:
+	 * path: CSV, TSV or text file, relative to the data model file
+	 * column: name or number of the column to read from a CSV or TSV file
+	 * @date 10/19/2026 - 6:30:00 PM
+	 *
+	 * @private
+	 * @param {string} generator_name
+	 * @param {*} args
+	 * @returns {string[]}
+	 */
+	private GetFileValues(generator_name: string, args: any): string[] {
+		const file = typeof args === "string" ? { path: args } : args;
+
+		if (!file?.path) {
+			throw new Error(`Error: generator '${generator_name}' must specify the path of a data file`);
+		}
+
+		try {
+			return CrudioDataFile.Load(file.path, file.column);
+		} catch (e: any) {
+			throw new Error(`Error: generator '${generator_name}' - ${e.message}`);
+		}
+	}
+
+	/**
+	 * Choose a value based on the value of another field, which can be in a related entity, e.g. Device.DeviceType.name
+	 * Options:
+	 * field: path to the field which selects the branch
+	 * when: object mapping field values to generator values, where a key can list several values separated by ;
+	 * default: value used when no branch matches
+	 * @date 10/19/2026 - 2:45:00 PM
+	 *
+	 * @private
+	 * @param {string} generator_name
+	 * @param {*} args
+	 * @param {CrudioEntityInstance} entity
+	 * @returns {*}
+	 */
+	private GetSwitchValue(generator_name: string, args: any, entity: CrudioEntityInstance): any {
+		if (!args?.field || !args.when || typeof args.when !== "object") {
+			throw new Error(`Error: switch generator '${generator_name}' must specify 'field' and 'when'`);
+		}
+
+		if (!entity) {
+			throw new Error(`Error: switch generator '${generator_name}' can only be used in an entity field`);
+		}
+
+		const path = args.field.replace(/^\[?!?|\]$/g, "");
+		const selector = String(this.ResolveFieldValue(path, entity) ?? "");
+
+		const branch = Object.keys(args.when).find(key => key.split(";").some(k => k.trim() === selector));
+
+		if (branch !== undefined) {
+			return args.when[branch];
+		}
+
+		if (args.default !== undefined) {
+			return args.default;
+		}
+
+		throw new Error(
+			`Error: switch generator '${generator_name}' has no branch for ${path} = '${selector}' in entity '${entity.EntityDefinition.Name}', and no default. Branches are: ${Object.keys(args.when).join(", ")}`
+		);
+	}
+
+	/**
+	 * Create a date and / or time value
+	 * Options:
+	 * days, weeks, months, years, hours, minutes, seconds (with _lo and _hi variants): offset from now, or from the date specified by after / before
+	 * from, to: ISO dates which specify an absolute range
+	 * after, before: path to a field of the same entity or a related entity, e.g. start_date or Organisation.founded
+	 * business_days: only create dates which fall on Monday to Friday
+	 * weekdays: list of allowed days, e.g. ["mon","wed"] or [1,3]
+	 * output: date, time or datetime (default), or format: a custom format, e.g. dd/MM/yyyy
+	 * @date 10/19/2026 - 11:55:00 AM
+	 *
+	 * @private
+	 * @param {string} generator_name
+	 * @param {*} args
+	 * @param {CrudioEntityInstance} entity
+	 * @returns {string}
+	 */
+	private GetDateTimeValue(generator_name: string, args: any, entity: CrudioEntityInstance): string {
+		var value: DateTime;
+		var lower: DateTime = null;
+		var upper: DateTime = null;
+
+		if (args.after || args.before) {
+			const path: string = (args.after ?? args.before).replace(/\[|\]|!/g, "");
+
+			if (!entity) {
+				throw new Error(`Error: generator '${generator_name}' creates dates relative to '${path}' and can only be used to generate entity field values`);
+			}
+
+			const base_value = this.ResolveFieldValue(path, entity);
+
+			// a date relative to an empty field is also empty, see nullRate
+			if (base_value === null || base_value === "") return null;
+
+			const base = CrudioUtils.ParseDate(base_value, this.date_format);
+
+			if (!base.isValid) {
+				throw new Error(`Error: generator '${generator_name}' can not use the value of '${path}' in entity type '${entity.EntityDefinition.Name}' as a date`);
+			}
+
+			// offsets are always applied in the direction of after / before, and default to 1 to 30 days
+			const units = ["days", "weeks", "months", "years", "hours", "minutes", "seconds"];
+			const has_offset = units.some(u => args[u] !== undefined || args[`${u}_lo`] !== undefined || args[`${u}_hi`] !== undefined);
+			const duration = has_offset ? args : { days_lo: 1, days_hi: 31 };
+			const offset = CrudioUtils.DateDuration(duration);
+			Object.keys(offset).map(k => (offset[k] = Math.abs(offset[k])));
+
+			if (args.after) {
+				value = base.plus(offset);
+				if (value <= base) value = base.plus({ days: 1 });
+				lower = base.plus({ days: 1 }).startOf("day");
+			} else {
+				value = base.minus(offset);
+				if (value >= base) value = base.minus({ days: 1 });
+				upper = base.minus({ days: 1 }).endOf("day");
+			}
+		} else if (args.from || args.to) {
+			lower = args.from ? CrudioUtils.ParseDate(args.from, this.date_format) : this.Now;
+			upper = args.to ? CrudioUtils.ParseDate(args.to, this.date_format) : this.Now;
+
+			if (!lower.isValid || !upper.isValid) {
+				throw new Error(`Error: generator '${generator_name}' has an invalid date range from:${args.from} to:${args.to}. Use ISO dates, e.g. 2020-01-31`);
+			}
+
+			const millis = CrudioUtils.GetRandomNumber(lower.toMillis(), upper.toMillis());
+			value = DateTime.fromMillis(millis, { zone: "utc" });
+		} else {
+			value = this.Now.plus(CrudioUtils.DateDuration(args));
+		}
+
+		value = this.ApplyWeekdayFilter(generator_name, value, args, lower, upper);
+
+		if (args.format) return value.toFormat(args.format);
+
+		switch ((args.output ?? "datetime").toLowerCase()) {
+			case "date":
+				return value.toFormat("yyyy-MM-dd");
+
+			case "time":
+				return value.toFormat("HH:mm:ss");
+
+			case "datetime":
+				return value.toFormat(this.date_format);
+
+			default:
+				throw new Error(`Error: generator '${generator_name}' has an invalid output '${args.output}'. Use date, time or datetime`);
+		}
+	}
+
+	/**
+	 * Move a date to the nearest allowed day of the week, staying within the lower and upper limits where possible
+	 * @date 10/19/2026 - 11:55:00 AM
+	 *
+	 * @private
+	 * @param {string} generator_name
+	 * @param {DateTime} value
+	 * @param {*} args
+	 * @param {DateTime} lower
+	 * @param {DateTime} upper
+	 * @returns {DateTime}
+	 */
+	private ApplyWeekdayFilter(generator_name: string, value: DateTime, args: any, lower: DateTime, upper: DateTime): DateTime {
+		const day_names = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"];
+		var allowed: number[] = null;
+
+		if (args.weekdays) {
+			allowed = (args.weekdays as any[]).map(d => (typeof d === "number" ? d : day_names.indexOf(String(d).toLowerCase().slice(0, 3)) + 1));
+
+			if (allowed.some(d => d < 1 || d > 7)) {
+				throw new Error(`Error: generator '${generator_name}' has invalid weekdays ${args.weekdays}. Use mon-sun or 1-7`);
+			}
+		} else if (args.business_days) {
+			allowed = [1, 2, 3, 4, 5];
+		}
+
+		if (!allowed || allowed.length == 0) return value;
+
+		// search forwards, unless that would take us past the upper limit
+		for (var i = 0; i < 7; i++) {
+			const next = value.plus({ days: i });
+
+			if (upper && next > upper) break;
+			if (allowed.includes(next.weekday)) return next;
+		}
+
+		for (var i = 1; i < 7; i++) {
+			const previous = value.minus({ days: i });
+
+			if (lower && previous < lower) break;
+			if (allowed.includes(previous.weekday)) return previous;
+		}
+
+		throw new Error(`Error: generator '${generator_name}' is unable to create a date on an allowed day of the week`);
+	}
+
+	/**
+	 * Get the value of a field from the entity or a related entity.
+	 * If the field has not yet been generated, then its tokens are processed first, so that values which depend on it are consistent
+	 * @date 10/19/2026 - 11:55:00 AM
+	 *
+	 * @private
+	 * @param {string} path
+	 * @param {CrudioEntityInstance} entity
+	 * @returns {*}
+	 */
+	private ResolveFieldValue(path: string, entity: CrudioEntityInstance): any {
+		const parts = path.split(".");
+		const field_name = parts.pop();
+		var source = entity;
+
+		if (parts.length > 0) {
+			source = this.GetEntityFieldValueFromPath(parts.join("."), entity) as any;
+
+			// the related entity is not connected, see fillRate
+			if (source === null) return null;
+		}
+
+		if (!source || !source.DataValues) {
+			throw new Error(`Error: '${path}' did not resolve from entity type '${entity.EntityDefinition.Name}'`);
+		}
+
+		if (typeof source.DataValues[field_name] === "string" && source.DataValues[field_name].indexOf("[") >= 0) {
+			if (this.pass && source === this.pass.entity) {
+				// a field of the entity which is being generated
+				this.GenerateFieldValue(this.pass, field_name);
+			} else {
+				// a related entity which has not been generated yet, so generate all of its fields, with the same checks as every other entity
+				this.ProcessTokensInEntity(source);
+			}
+		}
+
+		const value = source.DataValues[field_name];
+
+		if (typeof value === "string" && value.indexOf("[") >= 0) {
+			// the related entity is part way through being generated, because it refers to this entity
+			return this.ReplaceTokens(value, source);
+		}
+
+		return value;
+	}
+
+	/**
+	 * Get a random value from a statistical distribution
+	 * Parameters:
+	 * normal: mean, stddev
+	 * lognormal: mu, sigma (of the underlying normal distribution)
+	 * exponential: rate, or mean (1 / rate)
+	 * poisson: lambda
+	 * All distributions accept optional min and max values to clamp the result, and precision to specify the number of decimal places
+	 * @date 10/19/2026 - 11:10:00 AM
+	 *
+	 * @private
+	 * @param {string} generator_name
+	 * @param {string} distribution
+	 * @param {*} args
+	 * @returns {number}
+	 */
+	private GetDistributionValue(generator_name: string, distribution: string, args: any): number {
+		const param = (name: string, default_value: number = undefined): number => {
+			const v = args[name] ?? default_value;
+
+			if (v === undefined || typeof v !== "number") {
+				throw new Error(`Error: generator '${generator_name}' must specify a numeric value for '${name}' in the ${distribution} distribution`);
+			}
+
+			return v;
+		};
+
+		if (!args || typeof args !== "object") {
+			throw new Error(`Error: generator '${generator_name}' must specify the parameters of the ${distribution} distribution`);
+		}
+
+		var value: number;
+		var precision = 2;
+
+		switch (distribution) {
+			case "normal":
+				value = CrudioUtils.GetRandomNormal(param("mean"), param("stddev"));
+				break;
+
+			case "lognormal":
+				value = CrudioUtils.GetRandomLogNormal(param("mu"), param("sigma"));
+				break;
+
+			case "exponential":
+				value = CrudioUtils.GetRandomExponential(args.mean !== undefined ? 1 / param("mean") : param("rate"));
+				break;
+
+			case "poisson":
+				value = CrudioUtils.GetRandomPoisson(param("lambda"));
+				precision = 0;
+				break;
+		}
+
+		if (args.min !== undefined) value = Math.max(param("min"), value);
+		if (args.max !== undefined) value = Math.min(param("max"), value);
+
+		return CrudioUtils.Round(value, args.precision !== undefined ? param("precision") : precision);
+	}
+
+	/**
+	 * Get the list of values and their weights from a list generator
+	 * Lists are either a separated string, e.g. "Staff:80;Manager:15;Director:5", or an object, e.g. { "weighted": { "Staff": 80, "Manager": 15 } }
+	 * @date 10/19/2026 - 10:20:00 AM
+	 *
+	 * @private
+	 * @param {ICrudioGenerator} generator
+	 * @returns {{ values: string[]; weights: number[] }}
+	 */
+	private GetWeightedList(generator: ICrudioGenerator): { values: string[]; weights: number[] } {
+		if (typeof generator.values === "string") {
+			return CrudioUtils.ParseWeightedList(generator.values);
+		}
+
+		const weighted = generator.values["weighted"];
+
+		if (!weighted || typeof weighted !== "object") {
+			throw new Error(`Error: generator '${generator.name}' does not specify a list of values`);
+		}
+
+		const values = Object.keys(weighted);
+		const weights = values.map(v => Number(weighted[v]));
+
+		if (weights.some(w => Number.isNaN(w) || w < 0)) {
+			throw new Error(`Error: generator '${generator.name}' has an invalid weight. Weights must be numbers >= 0`);
+		}
+
+		return { values, weights };
+	}
+
+	/**
+	 * Get a data generator by name
+	 * Generators in the locale pack of the entity replace generators of the same name in the data model
+	 * @date 7/28/2022 - 1:30:00 PM
+	 *
+	 * @private
+	 * @param {string} generatorName
+	 * @param {(CrudioEntityInstance | null)} [entity=null]
+	 * @returns {ICrudioGenerator}
+	 */
+	private GetGenerator(generatorName: string, entity: CrudioEntityInstance | null = null): ICrudioGenerator {
+		if (this.localeList) {
+			const locale = entity?.Locale ?? this.ChooseLocale();
+			const generator = this.localePacks[locale][generatorName];
+
+			if (generator) return generator;
+		}
+
 		return this.generators[generatorName];
 	}
 
@@ -1350,25 +3486,49 @@ export default class CrudioDataModel {
 
 		for (var i = 0; i < path.length - 1; i++) {
 			const child_entity_name = path[i];
-			source = source.DataValues[child_entity_name];
+			const child_entity = source.DataValues[child_entity_name];
 
-			if (!source) throw new Error(`Field '${child_entity_name}' did not resolve from entity type '${entity.EntityDefinition.Name}'`);
-		}
+			// a lookup through an optional relationship which is not connected is empty, see fillRate
+			if ((child_entity === null || child_entity === undefined) && this.IsOptionalRelationship(source.EntityDefinition, child_entity_name)) return null;
+
+			if (child_entity === null || child_entity === undefined) {
+				throw new Error(`Error: '${fieldName}' did not resolve from entity type '${entity.EntityDefinition.Name}', because '${source.EntityDefinition.Name}' has no related entity '${child_entity_name}'`);
+			}
 
-		if (!source) {
-			throw "whoops";
+			source = child_entity;
 		}
 
 		const source_field_name = path[path.length - 1];
 		const value = source.DataValues[source_field_name];
 
-		if (!value) {
-			throw "whoops";
+		// values such as 0, false and empty strings are values, only a missing value is an error
+		if (value === null || value === undefined) {
+			if (this.IsOptionalRelationship(source.EntityDefinition, source_field_name)) return null;
+
+			throw new Error(`Error: '${fieldName}' did not resolve from entity type '${entity.EntityDefinition.Name}', because '${source.EntityDefinition.Name}' has no value for '${source_field_name}'`);
 		}
 
 		return value;
 	}
 
+	/**
+	 * Check if a related entity is connected through an optional relationship, so that lookups through it can be empty
+	 * This includes the other side of a one to one relationship, e.g. a user may not have a profile
+	 * @date 10/20/2026 - 10:15:00 AM
+	 *
+	 * @private
+	 * @param {CrudioEntityDefinition} definition
+	 * @param {string} name name of the related entity, or the parent in a hierarchy
+	 * @returns {boolean}
+	 */
+	private IsOptionalRelationship(definition: CrudioEntityDefinition, name: string): boolean {
+		const relationship = definition.OneToManyRelationships.find(r => (r.IsHierarchy ? r.ParentName : r.ToEntity) === name);
+
+		if (relationship) return !relationship.Required;
+
+		return this.entityDefinitions.some(e => e.Name === name && e.OneToManyRelationships.some(r => r.IsSingle && r.ToEntity === definition.Name));
+	}
+
 	//#endregion
 
 	//#region Triggers
@@ -1435,7 +3595,7 @@ export default class CrudioDataModel {
 
 			row_end = row_parts.length == 2 ? Number(row_parts[1]) : (row_end = row_start);
 
-			if (row_start === NaN || row_end === NaN) {
+			if (Number.isNaN(row_start) || Number.isNaN(row_end)) {
 				throw new Error(`Error: Syntax error - invalid row index in ${script}`);
 			}
 
@@ -1471,7 +3631,7 @@ export default class CrudioDataModel {
 
 		// If a table is requested during the construction of the object graph, then we have to try and fill it with data
 		// So that referencing entities will have target rows to connect to
-		if (table.DataRows.length == 0) {
+		if (table.DataRows.length == 0 && !this.filled.has(table)) {
 			this.FillTable(table);
 			this.ProcessAllTokensInTable(table);
 		}
@@ -1632,7 +3792,7 @@ export default class CrudioDataModel {
 				index = Number.parseInt(val);
 				p = p.substring(0, start - 1);
 
-				if (index === NaN) {
+				if (Number.isNaN(index)) {
 					throw new Error(`Error: failed to find a numeric index for ${p} in '${path}'`);
 				}
 			}
@@ -1,7 +1,7 @@
 import CrudioDataModel from "./CrudioDataModel";
 import CrudioField from "./CrudioField";
 import CrudioTable from "./CrudioTable";
-import { ICrudioConfig } from "./CrudioTypes";
+import { ICrudioConfig, ICrudioPoint } from "./CrudioTypes";
 import CrudioEntityDefinition from "./CrudioEntityDefinition";
 import CrudioHasura from "./CrudioHasura";
 import CrudioUtils from "./CrudioUtils";
@@ -51,6 +51,14 @@ class SqlInstructionList {
 	 * @type {string}
 	 */
 	public insert_table_rows: string = "";
+
+	/**
+	 * Latitude and longitude columns on the current table, which store the coordinates of a location field when PostGIS is not available
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @type {Record<string, { field: string; index: number }>}
+	 */
+	public coordinate_columns: Record<string, { field: string; index: number }> = {};
 }
 
 /**
@@ -84,6 +92,13 @@ export default class CrudioDataWrapper {
 	 * @type {CrudioDataModel}
 	 */
 	private datamodel: CrudioDataModel;
+	/**
+	 * Indicates the PostGIS extension is available, so locations are stored in geography columns
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @type {boolean}
+	 */
+	private postgis: boolean = false;
 	//#endregion
 	/**
 	 * Creates an instance of CrudioDataWrapper.
@@ -124,6 +139,10 @@ export default class CrudioDataWrapper {
 	public async PopulateDatabaseTables(): Promise<void> {
 		var instructions = new SqlInstructionList();
 
+		if (this.datamodel.Tables.some(t => t.EntityDefinition.fields.some(f => f.IsGeography))) {
+			this.postgis = await this.EnablePostGIS();
+		}
+
 		for (var index = 0; index < this.datamodel.Tables.length; index++) {
 			const table: CrudioTable = this.datamodel.Tables[index];
 
@@ -148,6 +167,28 @@ export default class CrudioDataWrapper {
 		await this.CreateForeignKeys(instructions);
 	}
 
+	/**
+	 * Check if PostGIS can be used to store locations, and enable the extension if required
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @private
+	 * @async
+	 * @returns {Promise<boolean>}
+	 */
+	private async EnablePostGIS(): Promise<boolean> {
+		// the first row of the result contains the column names
+		const result = await this.gql.ExecuteSqlCommand("SELECT name FROM pg_available_extensions WHERE name = 'postgis'");
+
+		if (!result || result.length < 2) {
+			console.log("PostGIS is not available, so locations will be stored in latitude and longitude columns");
+			return false;
+		}
+
+		await this.gql.ExecuteSqlCommand("CREATE EXTENSION IF NOT EXISTS postgis");
+
+		return true;
+	}
+
 	/**
 	 * Process foreign key relationships between entities and implement them in the database
 	 * @date 7/18/2022 - 1:46:23 PM
@@ -176,6 +217,7 @@ export default class CrudioDataWrapper {
 		instructions.table_column_names = "";
 		instructions.table_column_definitions = "";
 		instructions.table_field_list = [];
+		instructions.coordinate_columns = {};
 
 		// Add the primary key
 		instructions.table_field_list.push(entity.KeyField.fieldName);
@@ -183,7 +225,15 @@ export default class CrudioDataWrapper {
 		// Create a list of SQL columns from the basic entity fields
 		// The list of columns goes into the INSERT statement
 		entity.fields.map((f: CrudioField) => {
-			if (f.fieldName != entity.KeyField.fieldName) {
+			if (f.IsGeography && !this.postgis) {
+				["lat", "lon"].map(c => {
+					const column = `${f.fieldName}_${c}`;
+
+					instructions.table_column_definitions += `"${column}" numeric ${f.fieldOptions.isRequired ? "NOT NULL" : ""},`;
+					instructions.table_field_list.push(column);
+					instructions.coordinate_columns[column] = { field: f.fieldName, index: c === "lat" ? 1 : 0 };
+				});
+			} else if (f.fieldName != entity.KeyField.fieldName) {
 				instructions.table_column_definitions += `"${f.fieldName}" ${f.GetDatabaseFieldType} ${f.fieldOptions.isUnique ? "UNIQUE" : ""} ${f.fieldOptions.isRequired ? "NOT NULL" : ""},
 				`;
 
@@ -198,10 +248,22 @@ export default class CrudioDataWrapper {
 		// add foreign keys to insert columns for one to many
 		entity.OneToManyRelationships.map(r => {
 			var column = CrudioUtils.ToColumnId(r.FromColumn);
-			instructions.table_column_definitions += `"${column}" uuid,`; // TODO if required NOT NULL
+			instructions.table_column_definitions += `"${column}" uuid ${r.IsSingle ? "UNIQUE" : ""} ${r.Required ? "NOT NULL" : ""},`;
 			instructions.table_field_list.push(column);
 		});
 
+		// add table constraints for combinations of fields which must be unique
+		entity.UniqueConstraints.map(constraint => {
+			const columns = constraint.map(part => this.GetConstraintColumns(entity, part).join(",")).join(",");
+			instructions.table_column_definitions += `UNIQUE (${columns}),`;
+		});
+
+		// each pair of entities is connected once at most by a many to many join table
+		if (entity.IsManyToManyJoin) {
+			const columns = entity.OneToManyRelationships.map(r => `"${CrudioUtils.ToColumnId(r.FromColumn)}"`);
+			instructions.table_column_definitions += `UNIQUE (${columns.join(",")}),`;
+		}
+
 		instructions.table_field_list.map(f => {
 			instructions.table_column_names += `"${f}",`;
 		});
@@ -213,6 +275,31 @@ export default class CrudioDataWrapper {
 		instructions.table_column_definitions = instructions.table_column_definitions.slice(0, instructions.table_column_definitions.length - 1);
 	}
 
+	/**
+	 * Get the quoted names of the columns which store a field or a relationship
+	 * @date 10/19/2026 - 9:10:00 PM
+	 *
+	 * @private
+	 * @param {CrudioEntityDefinition} entity
+	 * @param {string} name field name, or the name of a related entity
+	 * @returns {string[]}
+	 */
+	private GetConstraintColumns(entity: CrudioEntityDefinition, name: string): string[] {
+		const field = entity.GetField(name);
+
+		if (field) {
+			return field.IsGeography && !this.postgis ? [`"${name}_lat"`, `"${name}_lon"`] : [`"${name}"`];
+		}
+
+		const relationship = entity.OneToManyRelationships.filter(r => r.ToEntity === name)[0];
+
+		if (!relationship) {
+			throw new Error(`Error: unique constraint of '${entity.Name}' refers to '${name}', which is not a field or a one to many relationship`);
+		}
+
+		return [`"${CrudioUtils.ToColumnId(relationship.FromColumn)}"`];
+	}
+
 	/**
 	 * Buid the SQL to implement one to many relationships
 	 * @date 7/18/2022 - 1:46:23 PM
@@ -261,8 +348,14 @@ export default class CrudioDataWrapper {
 
 			instructions.table_field_list.map(i => {
 				var datavalue: any = entity.DataValues[i];
+				const coordinate = instructions.coordinate_columns[i];
 
-				if (!datavalue && i.endsWith("Id")) {
+				if (coordinate) {
+					const location = entity.DataValues[coordinate.field];
+					datavalue = location ? location.coordinates[coordinate.index] : null;
+				}
+
+				if ((datavalue === undefined || datavalue === null) && i.endsWith("Id")) {
 					// Field was renamed to ...Id, so remove it to get the
 					// orginal name in order to retrieve the field value
 					const column_name = i.slice(0, i.length - 2);
@@ -274,27 +367,91 @@ export default class CrudioDataWrapper {
 					datavalue = datavalue.DataValues.id;
 				}
 
+				// JSON values are inserted as JSON text
+				const field = entity.EntityDefinition.GetField(i);
+				const json_field = field && ["json", "jsonb"].includes(field.fieldType.toLowerCase());
+
+				if (datavalue && field && field.IsGeography) {
+					datavalue = CrudioDataWrapper.ToGeographyText(datavalue);
+				} else if (Array.isArray(datavalue) && field && field.IsArray) {
+					datavalue = CrudioDataWrapper.ToArrayText(datavalue);
+				} else if (datavalue !== null && datavalue !== undefined && (typeof datavalue === "object" || json_field)) {
+					datavalue = CrudioDataWrapper.ToJsonText(datavalue);
+				} else if (typeof datavalue === "string" && datavalue.indexOf("[") >= 0) {
+					throw new Error(`Error: Found an unprocessed token at row ${r} in ${i}: ${datavalue}`);
+				}
+
 				//Escape ' characters
 				var insert_value = datavalue;
 				if (typeof insert_value === "string") {
 					insert_value = datavalue.replaceAll("'", "''").trim();
 				}
 
-				values += `${insert_value ? "'" + insert_value + "'" : "NULL"},`;
+				// 0, false and empty text are values, but empty text can not be converted to other column types
+				const empty = insert_value === undefined || insert_value === null || (insert_value === "" && field && field.GetDatabaseFieldType !== "text");
+
+				values += `${empty ? "NULL" : "'" + insert_value + "'"},`;
 			});
 
 			values = values.substring(0, values.length - 1);
 
-			if (values.indexOf("[") >= 0) {
-				throw new Error(`Error: Found an unprocessed token at row ${r} in ${values}`);
-			}
-
 			insert_rows += `(${values}),`;
 		}
 
 		instructions.insert_table_rows = insert_rows.substring(0, insert_rows.length - 1);
 	}
 
+	/**
+	 * Convert a value to JSON text for insertion into a json or jsonb column
+	 * Text which is already valid JSON is used as is
+	 * @date 10/19/2026 - 3:20:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @param {*} value
+	 * @returns {string}
+	 */
+	private static ToJsonText(value: any): string {
+		if (typeof value === "string") {
+			try {
+				JSON.parse(value);
+				return value;
+			} catch {
+				// plain text is stored as a JSON string
+			}
+		}
+
+		return JSON.stringify(value);
+	}
+
+	/**
+	 * Convert a GeoJSON point to extended well known text, e.g. SRID=4326;POINT(151.2093 -33.8688)
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @param {ICrudioPoint} point
+	 * @returns {string}
+	 */
+	private static ToGeographyText(point: ICrudioPoint): string {
+		return `SRID=4326;POINT(${point.coordinates[0]} ${point.coordinates[1]})`;
+	}
+
+	/**
+	 * Convert an array to a Postgres array literal, e.g. {"a","b"} or {1,2}
+	 * @date 10/19/2026 - 3:50:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @param {any[]} values
+	 * @returns {string}
+	 */
+	private static ToArrayText(values: any[]): string {
+		const items = values.map(v => (typeof v === "number" ? `${v}` : `"${String(v).replaceAll("\\", "\\\\").replaceAll('"', '\\"')}"`));
+
+		return `{${items.join(",")}}`;
+	}
+
 	/**
 	 * Build SQL to create data tables
 	 * @date 7/18/2022 - 1:46:23 PM
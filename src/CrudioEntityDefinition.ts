@@ -1,4 +1,4 @@
-import { ICrudioFieldOptions } from "./CrudioTypes";
+import { ICrudioFieldOptions, ICrudioTimeSeries } from "./CrudioTypes";
 
 import CrudioField from "./CrudioField";
 import CrudioEntityInstance from "./CrudioEntityInstance";
@@ -169,6 +169,68 @@ export default class CrudioEntityDefinition {
 		return this.max_row_count as number;
 	}
 
+	/**
+	 * Time series definition, which creates rows for each parent entity instead of using the maximum row count
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @private
+	 * @type {ICrudioTimeSeries}
+	 */
+	private time_series: ICrudioTimeSeries;
+
+	/**
+	 * Time series definition, which creates rows for each parent entity instead of using the maximum row count
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @public
+	 * @type {ICrudioTimeSeries}
+	 */
+	public get TimeSeries(): ICrudioTimeSeries {
+		return this.time_series;
+	}
+
+	/**
+	 * Time series definition, which creates rows for each parent entity instead of using the maximum row count
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @public
+	 * @type {ICrudioTimeSeries}
+	 */
+	public set TimeSeries(value: ICrudioTimeSeries) {
+		this.time_series = value;
+	}
+
+	/**
+	 * Combinations of fields which must be unique
+	 * @date 10/19/2026 - 9:10:00 PM
+	 *
+	 * @private
+	 * @type {string[][]}
+	 */
+	private unique_constraints: string[][] = [];
+
+	/**
+	 * Combinations of fields which must be unique, where a field can be the name of a one to many relationship
+	 * @date 10/19/2026 - 9:10:00 PM
+	 *
+	 * @public
+	 * @type {string[][]}
+	 */
+	public get UniqueConstraints(): string[][] {
+		return this.unique_constraints;
+	}
+
+	/**
+	 * Combinations of fields which must be unique, where a field can be the name of a one to many relationship
+	 * @date 10/19/2026 - 9:10:00 PM
+	 *
+	 * @public
+	 * @type {string[][]}
+	 */
+	public set UniqueConstraints(value: string[][]) {
+		this.unique_constraints = value ?? [];
+	}
+
 	/**
 	 * Snippets imported to enable short-hand inclusion of pre-defined fields
 	 * @date 7/18/2022 - 2:17:32 PM
@@ -180,12 +242,13 @@ export default class CrudioEntityDefinition {
 
 	/**
 	 * Track unique values assigned to all unique fields of this entity type
+	 * Values are kept in sets, so that checking a value takes the same time no matter how many rows have been generated
 	 * @date 7/18/2022 - 2:17:32 PM
 	 *
 	 * @private
-	 * @type {{}}
+	 * @type {Record<string, Set<string>>}
 	 */
-	private unique_keys_values = {};
+	private unique_keys_values: Record<string, Set<string>> = {};
 
 	/**
 	 * List of one to many relationship definitions
@@ -196,7 +259,32 @@ export default class CrudioEntityDefinition {
 	 * @type {CrudioRelationship[]}
 	 */
 	public get OneToManyRelationships(): CrudioRelationship[] {
-		return this.relationships.filter(r => r.RelationshipType.toLowerCase() === "one");
+		// one to one relationships are also implemented as a foreign key to the related entity
+		return this.relationships.filter(r => ["one", "single"].includes(r.RelationshipType.toLowerCase()));
+	}
+
+	/**
+	 * The one to many relationship from the entity to itself, which creates the entities as a tree
+	 * @date 10/19/2026 - 11:50:00 PM
+	 *
+	 * @public
+	 * @readonly
+	 * @type {(CrudioRelationship | undefined)}
+	 */
+	public get HierarchyRelationship(): CrudioRelationship | undefined {
+		return this.OneToManyRelationships.find(r => r.IsHierarchy);
+	}
+
+	/**
+	 * The one to many relationship which specifies how many entities to create for each parent, using min and max
+	 * @date 10/19/2026 - 10:40:00 PM
+	 *
+	 * @public
+	 * @readonly
+	 * @type {(CrudioRelationship | undefined)}
+	 */
+	public get ParentRelationship(): CrudioRelationship | undefined {
+		return this.OneToManyRelationships.find(r => r.HasCardinality);
 	}
 
 	/**
@@ -270,21 +358,50 @@ export default class CrudioEntityDefinition {
 	 */
 	InitialiseUniqueKeyValues() {
 		this.UniqueFields.map(f => {
-			this.unique_keys_values[f.fieldName] = [];
+			this.unique_keys_values[f.fieldName] = new Set<string>();
+		});
+
+		this.UniqueConstraints.map(c => {
+			this.unique_keys_values[CrudioEntityDefinition.GetConstraintName(c)] = new Set<string>();
 		});
 	}
 
+	/**
+	 * Get the name which identifies a combination of unique fields in the unique value cache
+	 * @date 10/19/2026 - 9:10:00 PM
+	 *
+	 * @public
+	 * @static
+	 * @param {string[]} constraint
+	 * @returns {string}
+	 */
+	public static GetConstraintName(constraint: string[]): string {
+		return constraint.join("+");
+	}
+
+	/**
+	 * Get the form of a value which is stored in the unique value cache, where values which only differ by case or surrounding spaces are the same
+	 * @date 10/19/2026 - 10:05:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @param {*} value
+	 * @returns {string}
+	 */
+	private static NormaliseUniqueValue(value: any): string {
+		return String(value).toLowerCase().trim();
+	}
+
 	/**
 	 * Check if a value already exists in the unique value cache
 	 * @date 7/18/2022 - 2:17:32 PM
 	 *
 	 * @param {string} field_name
-	 * @param {string} value
+	 * @param {*} value
 	 * @returns {boolean}
 	 */
-	HasUniqueValue(field_name: string, value: string): boolean {
-		value = value.toLowerCase().trim()
-		return this.unique_keys_values[field_name].indexOf(value) >= 0;
+	HasUniqueValue(field_name: string, value: any): boolean {
+		return this.unique_keys_values[field_name].has(CrudioEntityDefinition.NormaliseUniqueValue(value));
 	}
 
 	/**
@@ -292,11 +409,32 @@ export default class CrudioEntityDefinition {
 	 * @date 7/18/2022 - 2:17:32 PM
 	 *
 	 * @param {string} field_name
-	 * @param {string} value
+	 * @param {*} value
+	 */
+	AddUniqueValue(field_name: string, value: any) {
+		this.unique_keys_values[field_name].add(CrudioEntityDefinition.NormaliseUniqueValue(value));
+	}
+
+	/**
+	 * Remove a value from the unique value cache, when the entity which used it has to be generated again
+	 * @date 10/19/2026 - 9:10:00 PM
+	 *
+	 * @param {string} field_name
+	 * @param {*} value
+	 */
+	RemoveUniqueValue(field_name: string, value: any) {
+		this.unique_keys_values[field_name].delete(CrudioEntityDefinition.NormaliseUniqueValue(value));
+	}
+
+	/**
+	 * Number of values in the unique value cache of a field, or of a combination of fields
+	 * @date 10/19/2026 - 10:05:00 PM
+	 *
+	 * @param {string} field_name
+	 * @returns {number}
 	 */
-	AddUniqueValue(field_name: string, value: string) {
-		value = value.toLowerCase().trim();
-		this.unique_keys_values[field_name].push(value);
+	UniqueValueCount(field_name: string): number {
+		return this.unique_keys_values[field_name]?.size ?? 0;
 	}
 
 	/**
@@ -36,6 +36,21 @@ export default class CrudioEntityInstance {
 		return this.dataValues;
 	}
 
+	/**
+	 * Locale used to generate names, addresses and other locale specific values, when the data model uses locales
+	 * @date 10/19/2026 - 4:55:00 PM
+	 *
+	 * @public
+	 * @type {string}
+	 */
+	private locale: string;
+	public set Locale(locale: string) {
+		this.locale = locale;
+	}
+	public get Locale(): string {
+		return this.locale;
+	}
+
 	/**
 	 * Creates an instance of CrudioEntityInstance.
 	 * @date 7/18/2022 - 2:12:37 PM
@@ -80,12 +80,49 @@ export default class CrudioField implements ICrudioField {
    * @type {string}
    */
   public get GetDatabaseFieldType() {
+    var type: string;
+
     switch (this.fieldType.toLowerCase()) {
       case "string":
-        return "text";
+        type = "text";
+        break;
+
+      case "number":
+        type = "numeric";
+        break;
+
+      case "geography":
+        type = "geography(Point, 4326)";
+        break;
 
       default:
-        return this.fieldType;
+        type = this.fieldType;
     }
+
+    return this.IsArray ? `${type}[]` : type;
+  }
+
+  /**
+   * Indicates the field contains an array of values, using multi_choice or repeat
+   * @date 10/19/2026 - 3:50:00 PM
+   *
+   * @public
+   * @readonly
+   * @type {boolean}
+   */
+  public get IsArray(): boolean {
+    return this.fieldOptions.multi_choice === true || this.fieldOptions.repeat !== undefined;
+  }
+
+  /**
+   * Indicates the field contains a location, which is stored in a PostGIS geography column, or latitude and longitude columns
+   * @date 10/19/2026 - 7:45:00 PM
+   *
+   * @public
+   * @readonly
+   * @type {boolean}
+   */
+  public get IsGeography(): boolean {
+    return this.fieldType.toLowerCase() === "geography";
   }
 }
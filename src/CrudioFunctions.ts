@@ -0,0 +1,177 @@
+import CrudioDataModel from "./CrudioDataModel";
+import CrudioEntityInstance from "./CrudioEntityInstance";
+import CrudioUtils from "./CrudioUtils";
+
+/**
+ * A function which can be called inside a token, e.g. [upper(!lastname)]
+ * @date 10/19/2026 - 2:05:00 PM
+ *
+ * @export
+ * @typedef {CrudioFunction}
+ */
+export type CrudioFunction = (args: any[], entity: CrudioEntityInstance | null, datamodel: CrudioDataModel) => any;
+
+/**
+ * Registry of functions which can be used in token expressions
+ * @date 10/19/2026 - 2:05:00 PM
+ *
+ * @export
+ * @class CrudioFunctions
+ * @typedef {CrudioFunctions}
+ */
+export default class CrudioFunctions {
+	/**
+	 * Registered functions, keyed by lower case name
+	 * @date 10/19/2026 - 2:05:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @type {Record<string, CrudioFunction>}
+	 */
+	private static functions: Record<string, CrudioFunction> = {
+		upper: args => CrudioFunctions.Text(args[0]).toUpperCase(),
+		lower: args => CrudioFunctions.Text(args[0]).toLowerCase(),
+		trim: args => CrudioFunctions.Text(args[0]).trim(),
+		title: args => CrudioFunctions.Text(args[0]).toLowerCase().replace(/(^|\s)\S/g, c => c.toUpperCase()),
+		clean: args => CrudioFunctions.Text(args[0]).trim().replaceAll(" ", "").toLowerCase(),
+		slug: args =>
+			CrudioFunctions.Text(args[0])
+				.toLowerCase()
+				.replace(/[^a-z0-9]+/g, "-")
+				.replace(/^-+|-+$/g, ""),
+		ascii: args =>
+			CrudioFunctions.Text(args[0])
+				.replace(/ß/g, "ss")
+				.replace(/æ/g, "ae")
+				.replace(/œ/g, "oe")
+				.replace(/ø/g, "o")
+				.normalize("NFD")
+				.replace(/[^\x20-\x7e]/g, ""),
+		initials: args =>
+			CrudioFunctions.Text(args[0])
+				.split(/\s+/)
+				.filter(w => w.length > 0)
+				.map(w => w[0].toUpperCase())
+				.join(""),
+		left: args => CrudioFunctions.Text(args[0]).slice(0, Number(args[1] ?? 1)),
+		right: args => CrudioFunctions.Text(args[0]).slice(-Number(args[1] ?? 1)),
+		substr: args => CrudioFunctions.Text(args[0]).substr(Number(args[1] ?? 0), args[2] === undefined ? undefined : Number(args[2])),
+		pad: args => CrudioFunctions.Text(args[0]).padStart(Number(args[1]), args[2] ?? "0"),
+		padright: args => CrudioFunctions.Text(args[0]).padEnd(Number(args[1]), args[2] ?? " "),
+		replace: args => CrudioFunctions.Text(args[0]).replaceAll(CrudioFunctions.Text(args[1]), CrudioFunctions.Text(args[2])),
+		concat: args => args.map(a => CrudioFunctions.Text(a)).join(""),
+		length: args => CrudioFunctions.Text(args[0]).length,
+		round: args => CrudioUtils.Round(Number(args[0]), Number(args[1] ?? 0)),
+		date_format: (args, entity, datamodel) => {
+			const date = CrudioUtils.ParseDate(CrudioFunctions.Text(args[0]), datamodel.DateFormat);
+
+			if (!date.isValid) {
+				throw new Error(`date_format: '${args[0]}' is not a valid date`);
+			}
+
+			return date.toFormat(CrudioFunctions.Text(args[1] ?? datamodel.DateFormat));
+		},
+	};
+
+	/**
+	 * Call a function, where functions registered with the data model replace the standard functions
+	 * @date 10/19/2026 - 2:05:00 PM
+	 *
+	 * @public
+	 * @static
+	 * @param {string} name
+	 * @param {any[]} args
+	 * @param {(CrudioEntityInstance | null)} entity
+	 * @param {CrudioDataModel} datamodel
+	 * @param {Record<string, CrudioFunction>} [scoped={}] functions registered with the data model, keyed by lower case name
+	 * @returns {*}
+	 */
+	public static Call(name: string, args: any[], entity: CrudioEntityInstance | null, datamodel: CrudioDataModel, scoped: Record<string, CrudioFunction> = {}): any {
+		const fn = scoped[name.toLowerCase()] ?? CrudioFunctions.functions[name.toLowerCase()];
+
+		if (!fn) {
+			const available = Object.keys({ ...CrudioFunctions.functions, ...scoped });
+			throw new Error(`Error: unknown function '${name}'. Available functions are ${available.join(", ")}`);
+		}
+
+		return fn(args, entity, datamodel);
+	}
+
+	/**
+	 * Split a token into a function name and its arguments, e.g. left(!firstname,1) => left, ["!firstname", "1"]
+	 * Returns null if the token is not a function call
+	 * @date 10/19/2026 - 2:05:00 PM
+	 *
+	 * @public
+	 * @static
+	 * @param {string} token
+	 * @returns {({ name: string; args: string[] } | null)}
+	 */
+	public static ParseCall(token: string): { name: string; args: string[] } | null {
+		const match = token.trim().match(/^([a-zA-Z_]\w*)\((.*)\)$/s);
+
+		if (!match) return null;
+
+		return { name: match[1], args: CrudioFunctions.SplitArguments(match[2], token) };
+	}
+
+	/**
+	 * Split an argument list on commas, ignoring commas inside quotes and nested function calls
+	 * @date 10/19/2026 - 2:05:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @param {string} text
+	 * @param {string} token
+	 * @returns {string[]}
+	 */
+	private static SplitArguments(text: string, token: string): string[] {
+		const args: string[] = [];
+		var current = "";
+		var depth = 0;
+		var quote: string = null;
+
+		for (var i = 0; i < text.length; i++) {
+			const c = text[i];
+
+			if (quote) {
+				if (c === quote) quote = null;
+			} else if (c === "'" || c === '"') {
+				quote = c;
+			} else if (c === "(") {
+				depth++;
+			} else if (c === ")") {
+				depth--;
+			} else if (c === "," && depth === 0) {
+				args.push(current.trim());
+				current = "";
+				continue;
+			}
+
+			current += c;
+		}
+
+		if (quote || depth !== 0) {
+			throw new Error(`Error: unbalanced quotes or brackets in '${token}'`);
+		}
+
+		if (current.trim().length > 0 || args.length > 0) {
+			args.push(current.trim());
+		}
+
+		return args;
+	}
+
+	/**
+	 * Convert a function argument to text
+	 * @date 10/19/2026 - 2:05:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @param {*} value
+	 * @returns {string}
+	 */
+	private static Text(value: any): string {
+		return value === undefined || value === null ? "" : String(value);
+	}
+}
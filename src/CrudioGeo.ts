@@ -0,0 +1,193 @@
+import { ICrudioPoint } from "./CrudioTypes";
+import CrudioUtils from "./CrudioUtils";
+
+/**
+ * Generate random locations inside a bounding box, a polygon or a radius around a point
+ * @date 10/19/2026 - 7:45:00 PM
+ *
+ * @export
+ * @class CrudioGeo
+ * @typedef {CrudioGeo}
+ */
+export default class CrudioGeo {
+	/**
+	 * Approximate number of metres in one degree of latitude
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @type {number}
+	 */
+	private static MetresPerDegree = 111320;
+
+	/**
+	 * Create a point
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @public
+	 * @static
+	 * @param {number} lon
+	 * @param {number} lat
+	 * @param {number} [precision=6] number of decimal places, where 6 is accurate to about 10cm
+	 * @returns {ICrudioPoint}
+	 */
+	public static Point(lon: number, lat: number, precision: number = 6): ICrudioPoint {
+		return { type: "Point", coordinates: [CrudioUtils.Round(lon, precision), CrudioUtils.Round(lat, precision)] };
+	}
+
+	/**
+	 * Test if a value is a point
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @public
+	 * @static
+	 * @param {*} value
+	 * @returns {boolean}
+	 */
+	public static IsPoint(value: any): value is ICrudioPoint {
+		return !!value && value.type === "Point" && Array.isArray(value.coordinates) && value.coordinates.length === 2;
+	}
+
+	/**
+	 * Get a random location inside a bounding box
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @public
+	 * @static
+	 * @param {number[]} bbox [west, south, east, north]
+	 * @returns {number[]} [lon, lat]
+	 */
+	public static InBox(bbox: number[]): number[] {
+		if (!Array.isArray(bbox) || bbox.length !== 4 || bbox.some(v => typeof v !== "number") || bbox[0] > bbox[2] || bbox[1] > bbox[3]) {
+			throw new Error("Error: bbox must be [west, south, east, north]");
+		}
+
+		const [west, south, east, north] = bbox;
+
+		return [west + CrudioUtils.Random.Next() * (east - west), south + CrudioUtils.Random.Next() * (north - south)];
+	}
+
+	/**
+	 * Get a random location inside a polygon
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @public
+	 * @static
+	 * @param {number[][]} polygon list of [lon, lat] vertices
+	 * @returns {number[]} [lon, lat]
+	 */
+	public static InPolygon(polygon: number[][]): number[] {
+		if (!Array.isArray(polygon) || polygon.length < 3 || polygon.some(p => !Array.isArray(p) || p.length !== 2)) {
+			throw new Error("Error: polygon must be a list of at least three [lon, lat] vertices");
+		}
+
+		const lons = polygon.map(p => p[0]);
+		const lats = polygon.map(p => p[1]);
+		const bbox = [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)];
+
+		// sample the bounding box until the point falls inside the polygon
+		for (var tries = 0; tries < 1000; tries++) {
+			const point = CrudioGeo.InBox(bbox);
+
+			if (CrudioGeo.Contains(polygon, point)) return point;
+		}
+
+		throw new Error("Error: unable to find a location inside the polygon, check that the vertices describe an area");
+	}
+
+	/**
+	 * Get a random location within a radius of a point, evenly spread across the circle
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @public
+	 * @static
+	 * @param {number[]} center [lon, lat]
+	 * @param {number} radius metres
+	 * @returns {number[]} [lon, lat]
+	 */
+	public static InRadius(center: number[], radius: number): number[] {
+		return CrudioGeo.Offset(center, radius * Math.sqrt(CrudioUtils.Random.Next()), CrudioUtils.Random.Next() * 2 * Math.PI);
+	}
+
+	/**
+	 * Get a random location clustered around a point, where locations are more likely to be close to the point
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @public
+	 * @static
+	 * @param {number[]} center [lon, lat]
+	 * @param {number} radius metres, which no location exceeds
+	 * @returns {number[]} [lon, lat]
+	 */
+	public static Near(center: number[], radius: number): number[] {
+		const distance = Math.min(Math.abs(CrudioUtils.GetRandomNormal(0, radius / 2)), radius);
+
+		return CrudioGeo.Offset(center, distance, CrudioUtils.Random.Next() * 2 * Math.PI);
+	}
+
+	/**
+	 * Distance between two locations in metres
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @public
+	 * @static
+	 * @param {number[]} from [lon, lat]
+	 * @param {number[]} to [lon, lat]
+	 * @returns {number}
+	 */
+	public static Distance(from: number[], to: number[]): number {
+		const dlat = (to[1] - from[1]) * CrudioGeo.MetresPerDegree;
+		const dlon = (to[0] - from[0]) * CrudioGeo.MetresPerDegree * Math.cos((from[1] * Math.PI) / 180);
+
+		return Math.sqrt(dlat * dlat + dlon * dlon);
+	}
+
+	/**
+	 * Move a location by a distance in a direction
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @param {number[]} center [lon, lat]
+	 * @param {number} distance metres
+	 * @param {number} bearing radians
+	 * @returns {number[]} [lon, lat]
+	 */
+	private static Offset(center: number[], distance: number, bearing: number): number[] {
+		if (!Array.isArray(center) || center.length !== 2 || center.some(v => typeof v !== "number")) {
+			throw new Error("Error: center must be [lon, lat]");
+		}
+
+		const [lon, lat] = center;
+		const dlat = (distance * Math.cos(bearing)) / CrudioGeo.MetresPerDegree;
+		const dlon = (distance * Math.sin(bearing)) / (CrudioGeo.MetresPerDegree * Math.cos((lat * Math.PI) / 180));
+
+		return [lon + dlon, lat + dlat];
+	}
+
+	/**
+	 * Test if a location is inside a polygon, by counting how many edges a line from the point crosses
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @public
+	 * @static
+	 * @param {number[][]} polygon
+	 * @param {number[]} point
+	 * @returns {boolean}
+	 */
+	public static Contains(polygon: number[][], point: number[]): boolean {
+		const [x, y] = point;
+		var inside = false;
+
+		for (var i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+			const [xi, yi] = polygon[i];
+			const [xj, yj] = polygon[j];
+
+			if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+				inside = !inside;
+			}
+		}
+
+		return inside;
+	}
+}
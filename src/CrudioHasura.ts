@@ -96,7 +96,13 @@ export default class CrudioHasura {
 	 * @returns {Promise<void>}
 	 */
 	private async CreateRelationships(r: CrudioRelationship): Promise<void> {
-		await this.CreateArrayRelationship(r);
+		// each side of a one to one relationship refers to a single object
+		if (r.IsSingle) {
+			await this.CreateReverseObjectRelationship(r);
+		} else {
+			await this.CreateArrayRelationship(r);
+		}
+
 		await this.CreateObjectRelationship(r);
 	}
 
@@ -114,7 +120,7 @@ export default class CrudioHasura {
 			type: "pg_create_object_relationship",
 
 			args: {
-				name: r.ToEntity,
+				name: r.IsHierarchy ? r.ParentName : r.ToEntity,
 
 				table: {
 					schema: this.config.schema,
@@ -139,6 +145,44 @@ export default class CrudioHasura {
 		await this.CreateRelationship(obj_rel_spec);
 	}
 
+	/**
+	 * Create an object relationship from the target of a one to one relationship back to the entity which refers to it
+	 * @date 10/20/2026 - 12:20:00 AM
+	 *
+	 * @private
+	 * @async
+	 * @param {CrudioRelationship} r
+	 * @returns {*}
+	 */
+	private async CreateReverseObjectRelationship(r: CrudioRelationship) {
+		const obj_rel_spec: any = {
+			type: "pg_create_object_relationship",
+
+			args: {
+				name: r.FromEntity,
+
+				table: {
+					schema: this.config.schema,
+					name: this.datamodel.GetTableForEntityName(r.ToEntity).TableName,
+				},
+
+				using: {
+					manual_configuration: {
+						remote_table: {
+							schema: this.config.schema,
+							name: this.datamodel.GetTableForEntityName(r.FromEntity).TableName,
+						},
+						column_mapping: {},
+					},
+				},
+			},
+		};
+
+		obj_rel_spec.args.using.manual_configuration.column_mapping[r.ToColumn] = CrudioUtils.ToColumnId(r.FromColumn);
+
+		await this.CreateRelationship(obj_rel_spec);
+	}
+
 	/**
 	 * Create an array relationship from the "many" end
 	 * @date 14/08/2022 - 12:52:30
@@ -153,7 +197,7 @@ export default class CrudioHasura {
 			type: "pg_create_array_relationship",
 
 			args: {
-				name: this.datamodel.GetTableForEntityName(r.FromEntity).TableName,
+				name: r.IsHierarchy ? r.ChildrenName : this.datamodel.GetTableForEntityName(r.FromEntity).TableName,
 
 				table: {
 					schema: this.config.schema,
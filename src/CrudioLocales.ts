@@ -0,0 +1,132 @@
+import { ICrudioGenerator } from "./CrudioTypes";
+
+/**
+ * Convert a map of generator names and values to a list of generators
+ * @date 10/19/2026 - 4:55:00 PM
+ *
+ * @param {Record<string, any>} generators
+ * @returns {ICrudioGenerator[]}
+ */
+const Pack = (generators: Record<string, any>): ICrudioGenerator[] => Object.keys(generators).map(name => ({ name, values: generators[name] }));
+
+/**
+ * Email address built from the person's name, with accents and spaces removed
+ * @date 10/19/2026 - 4:55:00 PM
+ *
+ * @type {string}
+ */
+const email = "[ascii(!~firstname)].[ascii(!~lastname)]@[server].[tld]";
+
+/**
+ * Bundled locale packs, which replace the generators for names, addresses, phone numbers and email addresses
+ * when a locale is selected with the "locale" property of the data model, or the --locale command line option
+ * @date 10/19/2026 - 4:55:00 PM
+ *
+ * @type {Record<string, ICrudioGenerator[]>}
+ */
+const CrudioLocales: Record<string, ICrudioGenerator[]> = {
+	"en-AU": Pack({
+		title: "Dr;Mr;Mrs;Ms;Miss;Prof",
+		firstname:
+			"Oliver;Noah;Jack;William;Leo;Lucas;Thomas;Henry;Charlie;James;Hugo;Archie;Lachlan;Cooper;Riley;Isla;Charlotte;Olivia;Amelia;Mia;Ava;Grace;Matilda;Chloe;Ruby;Harper;Sienna;Zoe;Evie;Sophie",
+		lastname:
+			"Smith;Jones;Williams;Brown;Wilson;Taylor;Nguyen;Johnson;Martin;White;Anderson;Walker;Thompson;Thomas;Lee;Ryan;Kelly;Harris;King;Robinson;Campbell;Clarke;Mitchell;Young;Hughes;Murphy;O'Brien;Wright;Turner;Cooper",
+		fullname: "[title] [firstname] [lastname]",
+		house: "1>300",
+		street: "Bay;Beach;Church;Darling;George;Hay;High;King;Macquarie;Murray;Ocean;Park;Queen;Railway;Station;Victoria;Wattle;Banksia;Acacia;Elizabeth",
+		streettype: "Street;Road;Avenue;Parade;Crescent;Place;Drive;Close;Way;Terrace",
+		place: "Bondi;Parramatta;Fremantle;Subiaco;St Kilda;Fitzroy;Glenelg;Toowong;Sandy Bay;Braddon;Manly;Chatswood;Cottesloe;Brunswick;Paddington",
+		state: "NSW;VIC;QLD;WA;SA;TAS;ACT;NT",
+		postcode: { regex: "[2-7]\\d{3}" },
+		address: "[house] [street] [streettype], [place] [state] [postcode]",
+		phone: { regex: "04\\d{2} \\d{3} \\d{3}" },
+		server: "gmail;outlook;bigpond;optusnet;yahoo",
+		tld: "com;com.au;net.au",
+		email,
+	}),
+
+	"en-US": Pack({
+		title: "Dr;Mr;Mrs;Ms;Miss;Prof",
+		firstname:
+			"Liam;Noah;Oliver;Elijah;James;William;Benjamin;Lucas;Henry;Theodore;Michael;Daniel;Ethan;Jacob;Olivia;Emma;Charlotte;Amelia;Sophia;Mia;Isabella;Ava;Evelyn;Harper;Madison;Abigail;Emily;Elizabeth;Avery;Sofia",
+		lastname:
+			"Smith;Johnson;Williams;Brown;Jones;Garcia;Miller;Davis;Rodriguez;Martinez;Hernandez;Lopez;Gonzalez;Wilson;Anderson;Thomas;Taylor;Moore;Jackson;Martin;Lee;Perez;Thompson;White;Harris;Sanchez;Clark;Ramirez;Lewis;Robinson",
+		fullname: "[title] [firstname] [lastname]",
+		house: "1>9999",
+		street: "Main;Oak;Pine;Maple;Cedar;Elm;Washington;Lake;Hill;Park;Walnut;Sunset;Lincoln;Jefferson;Madison;Franklin;Highland;Jackson;Church;Spring",
+		streettype: "Street;Avenue;Boulevard;Road;Drive;Lane;Court;Way;Place;Terrace",
+		place: "Springfield;Riverside;Franklin;Greenville;Bristol;Clinton;Fairview;Salem;Madison;Georgetown;Arlington;Ashland;Burlington;Manchester;Oxford;Austin;Denver;Portland;Seattle;Boston",
+		state: "AL;AK;AZ;CA;CO;CT;FL;GA;IL;IN;MA;MD;MI;MN;NC;NJ;NY;OH;OR;PA;TX;VA;WA;WI",
+		postcode: { regex: "\\d{5}" },
+		address: "[house] [street] [streettype], [place], [state] [postcode]",
+		phone: { regex: "\\([2-9]\\d{2}\\) [2-9]\\d{2}-\\d{4}" },
+		server: "gmail;outlook;yahoo;aol;icloud",
+		tld: "com;net;org;us",
+		email,
+	}),
+
+	"de-DE": Pack({
+		title: "Herr;Frau;Dr.;Prof.",
+		firstname:
+			"Maximilian;Alexander;Paul;Elias;Ben;Noah;Leon;Louis;Jonas;Felix;Lukas;Jürgen;Stefan;Tobias;Sebastian;Sophie;Marie;Emilia;Hannah;Mia;Lena;Lea;Anna;Katharina;Johanna;Clara;Greta;Jana;Ursula;Sabine",
+		lastname:
+			"Müller;Schmidt;Schneider;Fischer;Weber;Meyer;Wagner;Becker;Schulz;Hoffmann;Schäfer;Koch;Bauer;Richter;Klein;Wolf;Schröder;Neumann;Schwarz;Zimmermann;Braun;Krüger;Hofmann;Hartmann;Lange;Schmitt;Werner;Krause;Meier;Lehmann",
+		fullname: "[title] [firstname] [lastname]",
+		house: "1>150",
+		street: "Haupt;Schul;Garten;Bahnhof;Dorf;Berg;Birken;Linden;Kirch;Wald;Ring;Wiesen;Tannen;Buchen;Eichen;Mühlen;Sonnen;Rosen;Feld;Goethe",
+		streettype: "straße;weg;allee;gasse;platz",
+		place: "Berlin;Hamburg;München;Köln;Frankfurt am Main;Stuttgart;Düsseldorf;Leipzig;Dortmund;Essen;Bremen;Dresden;Hannover;Nürnberg;Duisburg;Bochum;Wuppertal;Bielefeld;Bonn;Münster",
+		state:
+			"Baden-Württemberg;Bayern;Berlin;Brandenburg;Bremen;Hamburg;Hessen;Mecklenburg-Vorpommern;Niedersachsen;Nordrhein-Westfalen;Rheinland-Pfalz;Saarland;Sachsen;Sachsen-Anhalt;Schleswig-Holstein;Thüringen",
+		postcode: { regex: "(?:0[1-9]|[1-9]\\d)\\d{3}" },
+		address: "[street][streettype] [house], [postcode] [place]",
+		phone: { regex: "01[5-7]\\d \\d{7}" },
+		server: "gmx;web;t-online;gmail;outlook",
+		tld: "de;com;net",
+		email,
+	}),
+
+	"fr-FR": Pack({
+		title: "M.;Mme;Dr;Pr",
+		firstname:
+			"Gabriel;Léo;Raphaël;Louis;Arthur;Jules;Adam;Lucas;Hugo;Maël;Théo;Nathan;Étienne;François;Jade;Louise;Emma;Alice;Ambre;Lina;Rose;Chloé;Léa;Anna;Mathilde;Camille;Élodie;Amélie;Hélène;Céline",
+		lastname:
+			"Martin;Bernard;Thomas;Petit;Robert;Richard;Durand;Dubois;Moreau;Laurent;Simon;Michel;Lefèvre;Leroy;Roux;David;Bertrand;Morel;Fournier;Girard;Bonnet;Dupont;Lambert;Fontaine;Rousseau;Vincent;Muller;Lefebvre;Faure;André",
+		fullname: "[title] [firstname] [lastname]",
+		house: "1>200",
+		street:
+			"de la Paix;Victor Hugo;de la République;Jean Jaurès;du Général de Gaulle;Pasteur;de la Gare;des Écoles;du Moulin;de l'Église;Voltaire;Émile Zola;des Lilas;du Château;Gambetta;de Verdun;Carnot;Nationale;des Roses;Saint-Michel",
+		streettype: "rue;avenue;boulevard;place;allée;impasse;chemin;quai",
+		place: "Paris;Marseille;Lyon;Toulouse;Nice;Nantes;Montpellier;Strasbourg;Bordeaux;Lille;Rennes;Reims;Toulon;Grenoble;Dijon;Angers;Nîmes;Villeurbanne;Le Havre;Aix-en-Provence",
+		state:
+			"Île-de-France;Auvergne-Rhône-Alpes;Nouvelle-Aquitaine;Occitanie;Hauts-de-France;Grand Est;Provence-Alpes-Côte d'Azur;Normandie;Bretagne;Pays de la Loire;Bourgogne-Franche-Comté;Centre-Val de Loire;Corse",
+		postcode: { regex: "(?:0[1-9]|[1-8]\\d|9[0-5])\\d{3}" },
+		address: "[house] [streettype] [street], [postcode] [place]",
+		phone: { regex: "0[67] \\d{2} \\d{2} \\d{2} \\d{2}" },
+		server: "orange;free;sfr;laposte;gmail;outlook",
+		tld: "fr;com;net",
+		email,
+	}),
+
+	// names and addresses are romanised, so they can be used in email addresses and searched with a standard keyboard
+	"ja-JP": Pack({
+		title: "Mr;Ms;Dr",
+		firstname:
+			"Haruto;Sota;Yuto;Hinata;Riku;Minato;Ren;Takumi;Kaito;Hiroshi;Takeshi;Kenji;Yuki;Daiki;Shota;Yui;Hina;Aoi;Sakura;Himari;Mio;Rin;Yuna;Akari;Emi;Haruka;Keiko;Naomi;Ayaka;Misaki",
+		lastname:
+			"Sato;Suzuki;Takahashi;Tanaka;Watanabe;Ito;Yamamoto;Nakamura;Kobayashi;Kato;Yoshida;Yamada;Sasaki;Yamaguchi;Matsumoto;Inoue;Kimura;Hayashi;Shimizu;Yamazaki;Mori;Abe;Ikeda;Hashimoto;Ishikawa;Ogawa;Fujita;Okada;Goto;Hasegawa",
+		fullname: "[lastname] [firstname]",
+		house: "[1>9]-[1>30]-[1>20]",
+		street: "Ginza;Shibuya;Shinjuku;Roppongi;Asakusa;Ueno;Akasaka;Ebisu;Nakameguro;Umeda;Namba;Tenjin;Sakae;Honcho;Motomachi",
+		place: "Chiyoda-ku;Chuo-ku;Minato-ku;Shinjuku-ku;Shibuya-ku;Yokohama;Osaka;Nagoya;Sapporo;Fukuoka;Kobe;Kyoto;Kawasaki;Saitama;Hiroshima;Sendai;Chiba",
+		state: "Tokyo;Osaka;Kanagawa;Aichi;Hokkaido;Fukuoka;Hyogo;Kyoto;Saitama;Chiba;Hiroshima;Miyagi;Shizuoka;Okinawa;Nagano",
+		postcode: { regex: "\\d{3}-\\d{4}" },
+		address: "[house] [street], [place], [state] [postcode]",
+		phone: { regex: "0[789]0-\\d{4}-\\d{4}" },
+		server: "docomo;ezweb;softbank;gmail;yahoo",
+		tld: "jp;co.jp;ne.jp;com",
+		email,
+	}),
+};
+
+export default CrudioLocales;
@@ -0,0 +1,104 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import CrudioDataModel from "./CrudioDataModel";
+import CrudioEntityInstance from "./CrudioEntityInstance";
+import { CrudioFunction } from "./CrudioFunctions";
+import CrudioRandom from "./CrudioRandom";
+
+/**
+ * A generator written in JavaScript or TypeScript, which is exported by a plugin module
+ * Use the random number generator, rather than Math.random, so that seeded data models always create the same data
+ * @date 10/19/2026 - 5:50:00 PM
+ *
+ * @export
+ * @typedef {CrudioPluginGenerator}
+ */
+export type CrudioPluginGenerator = (entity: CrudioEntityInstance | null, datamodel: CrudioDataModel, random: CrudioRandom) => any;
+
+/**
+ * Generators and token functions exported by a plugin module
+ * @date 10/20/2026 - 12:10:00 PM
+ *
+ * @export
+ * @typedef {CrudioPluginExports}
+ */
+export type CrudioPluginExports = { generators: Record<string, CrudioPluginGenerator>; functions: Record<string, CrudioFunction> };
+
+/**
+ * Load plugin modules which export generator functions
+ * @date 10/19/2026 - 5:50:00 PM
+ *
+ * @export
+ * @class CrudioPlugins
+ * @typedef {CrudioPlugins}
+ */
+export default class CrudioPlugins {
+	/**
+	 * Load a plugin module and return the generators it exports, keyed by export name
+	 * Token functions, e.g. [checksum(!code)], are exported as an object named functions
+	 * @date 10/19/2026 - 5:50:00 PM
+	 *
+	 * @public
+	 * @static
+	 * @param {string} filename path to a .js or .ts module
+	 * @returns {CrudioPluginExports}
+	 */
+	public static Load(filename: string): CrudioPluginExports {
+		const fullpath = path.resolve(filename);
+
+		if (!fs.existsSync(fullpath)) {
+			throw new Error(`Error: unable to find plugin '${filename}'`);
+		}
+
+		if (fullpath.endsWith(".ts") && require.extensions && !require.extensions[".ts"]) {
+			CrudioPlugins.RegisterTypeScript(filename);
+		}
+
+		var plugin: any;
+
+		try {
+			plugin = require(fullpath);
+		} catch (e: any) {
+			throw new Error(`Error: unable to load plugin '${filename}' - ${e.message}`);
+		}
+
+		// support named exports, and a default export which is an object of functions
+		const exported = { ...(plugin.default && typeof plugin.default === "object" ? plugin.default : {}), ...plugin };
+		const generators: Record<string, CrudioPluginGenerator> = {};
+
+		const functions: Record<string, CrudioFunction> = {};
+
+		Object.keys(exported)
+			.filter(name => name !== "default" && typeof exported[name] === "function")
+			.map(name => (generators[name] = exported[name]));
+
+		if (exported.functions && typeof exported.functions === "object") {
+			Object.keys(exported.functions)
+				.filter(name => typeof exported.functions[name] === "function")
+				.map(name => (functions[name] = exported.functions[name]));
+		}
+
+		if (Object.keys(generators).length === 0 && Object.keys(functions).length === 0) {
+			throw new Error(`Error: plugin '${filename}' does not export any generator functions`);
+		}
+
+		return { generators, functions };
+	}
+
+	/**
+	 * Enable TypeScript plugins to be loaded when running compiled JavaScript, which requires ts-node to be installed
+	 * @date 10/19/2026 - 5:50:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @param {string} filename
+	 */
+	private static RegisterTypeScript(filename: string): void {
+		try {
+			require("ts-node").register({ transpileOnly: true });
+		} catch (e: any) {
+			throw new Error(`Error: plugin '${filename}' is written in TypeScript, so ts-node must be installed, or compile the plugin to JavaScript`);
+		}
+	}
+}
@@ -0,0 +1,128 @@
+/**
+ * Seedable pseudo random number generator
+ * All random values used to generate data are drawn from an instance of this class, so that a data model
+ * filled using the same seed will always produce identical data
+ * @date 10/19/2026 - 9:05:00 AM
+ *
+ * @export
+ * @class CrudioRandom
+ * @typedef {CrudioRandom}
+ */
+export default class CrudioRandom {
+	/**
+	 * The seed which initialised the generator
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @private
+	 * @type {string}
+	 */
+	private seed: string;
+	/**
+	 * The seed which initialised the generator
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @public
+	 * @readonly
+	 * @type {string}
+	 */
+	public get SeedValue(): string {
+		return this.seed;
+	}
+
+	/**
+	 * Internal 32 bit state of the generator
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @private
+	 * @type {number}
+	 */
+	private state: number = 0;
+
+	/**
+	 * Creates an instance of CrudioRandom.
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @constructor
+	 * @param {(string | number)} [seed]
+	 */
+	constructor(seed?: string | number) {
+		this.Seed(seed);
+	}
+
+	/**
+	 * Reset the generator using the specified seed. If no seed is provided, an arbitrary seed is chosen
+	 * and the generated sequence will be different each time
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @public
+	 * @param {(string | number)} [seed]
+	 */
+	public Seed(seed?: string | number): void {
+		this.seed = seed === undefined || seed === null ? `${Date.now()}:${Math.random()}` : String(seed);
+		this.state = CrudioRandom.Hash(this.seed);
+	}
+
+	/**
+	 * Get the next random number >= 0 and < 1
+	 * Implements the mulberry32 algorithm
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @public
+	 * @returns {number}
+	 */
+	public Next(): number {
+		this.state = (this.state + 0x6d2b79f5) | 0;
+
+		var t = this.state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	}
+
+	/**
+	 * Create a version 4 UUID using random values from the generator
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @public
+	 * @returns {string}
+	 */
+	public Uuid(): string {
+		const bytes: number[] = [];
+
+		for (var i = 0; i < 16; i++) {
+			bytes.push(Math.floor(this.Next() * 256));
+		}
+
+		// set the version (4) and variant (RFC 4122) bits
+		bytes[6] = (bytes[6] & 0x0f) | 0x40;
+		bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+		const hex = bytes.map(b => b.toString(16).padStart(2, "0")).join("");
+
+		return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+	}
+
+	/**
+	 * Convert a text seed to a 32 bit integer
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @private
+	 * @static
+	 * @param {string} text
+	 * @returns {number}
+	 */
+	private static Hash(text: string): number {
+		var h = 1779033703 ^ text.length;
+
+		for (var i = 0; i < text.length; i++) {
+			h = Math.imul(h ^ text.charCodeAt(i), 3432918353);
+			h = (h << 13) | (h >>> 19);
+		}
+
+		h = Math.imul(h ^ (h >>> 16), 2246822507);
+		h = Math.imul(h ^ (h >>> 13), 3266489909);
+
+		return (h ^ (h >>> 16)) >>> 0;
+	}
+}
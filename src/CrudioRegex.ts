@@ -0,0 +1,478 @@
+import CrudioUtils from "./CrudioUtils";
+
+/**
+ * Node of a parsed regular expression
+ * @date 10/19/2026 - 1:15:00 PM
+ *
+ * @interface IRegexNode
+ * @typedef {IRegexNode}
+ */
+interface IRegexNode {
+	/**
+	 * literal: fixed text, set: one of a list of characters, group: one of a list of alternative sequences, repeat: a node repeated between min and max times
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @type {string}
+	 */
+	type: "literal" | "set" | "group" | "repeat";
+	value?: string;
+	chars?: string[];
+	alternatives?: IRegexNode[][];
+	node?: IRegexNode;
+	min?: number;
+	max?: number;
+}
+
+/**
+ * Generate random strings which match a regular expression
+ * Supports literals, escapes (\d \w \s), character classes including ranges and negation, groups with alternation,
+ * and the quantifiers ? * + {n} {n,} {n,m}. Anchors are accepted at the start and end of the pattern, or of a top level alternative.
+ * Syntax which cannot be generated by this parser, such as backreferences, lookarounds and Unicode properties, is rejected.
+ * @date 10/19/2026 - 1:15:00 PM
+ *
+ * @export
+ * @class CrudioRegex
+ * @typedef {CrudioRegex}
+ */
+export default class CrudioRegex {
+	/**
+	 * Cache of parsed patterns
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @type {Record<string, CrudioRegex>}
+	 */
+	private static cache: Record<string, CrudioRegex> = {};
+
+	/**
+	 * All printable ASCII characters, used for . and negated character classes
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @type {string[]}
+	 */
+	private static printable: string[] = Array.from({ length: 95 }, (v, i) => String.fromCharCode(32 + i));
+
+	/**
+	 * Root node of the parsed pattern
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @private
+	 * @type {IRegexNode}
+	 */
+	private root: IRegexNode;
+
+	/**
+	 * Position of the parser in the pattern
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @private
+	 * @type {number}
+	 */
+	private position: number = 0;
+
+	/**
+	 * Number of groups which enclose the current position of the parser
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @private
+	 * @type {number}
+	 */
+	private depth: number = 0;
+
+	/**
+	 * Creates an instance of CrudioRegex.
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @constructor
+	 * @param {string} pattern
+	 * @param {number} [maxRepeat=10] upper limit for the open ended quantifiers * + {n,}
+	 */
+	constructor(private pattern: string, private maxRepeat: number = 10) {
+		this.root = { type: "group", alternatives: this.ParseAlternatives() };
+
+		if (this.position < this.pattern.length) {
+			throw new Error(`Error: unexpected '${this.pattern[this.position]}' at position ${this.position} in regex '${this.pattern}'`);
+		}
+	}
+
+	/**
+	 * Generate a random string matching a pattern, using a cached copy of the parsed pattern
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @public
+	 * @static
+	 * @param {string} pattern
+	 * @param {number} [maxRepeat=10]
+	 * @returns {string}
+	 */
+	public static Generate(pattern: string, maxRepeat: number = 10): string {
+		const key = `${maxRepeat}:${pattern}`;
+
+		if (!CrudioRegex.cache[key]) {
+			CrudioRegex.cache[key] = new CrudioRegex(pattern, maxRepeat);
+		}
+
+		return CrudioRegex.cache[key].Generate();
+	}
+
+	/**
+	 * Generate a random string matching the pattern
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @public
+	 * @returns {string}
+	 */
+	public Generate(): string {
+		return this.GenerateNode(this.root);
+	}
+
+	//#region Generation
+
+	/**
+	 * Generate text for a node of the parsed pattern
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @private
+	 * @param {IRegexNode} node
+	 * @returns {string}
+	 */
+	private GenerateNode(node: IRegexNode): string {
+		switch (node.type) {
+			case "literal":
+				return node.value;
+
+			case "set":
+				return node.chars[CrudioUtils.GetRandomNumber(0, node.chars.length)];
+
+			case "group":
+				const sequence = node.alternatives[CrudioUtils.GetRandomNumber(0, node.alternatives.length)];
+				return sequence.map(n => this.GenerateNode(n)).join("");
+
+			case "repeat":
+				const count = CrudioUtils.GetRandomNumber(node.min, node.max + 1);
+				var text = "";
+
+				for (var i = 0; i < count; i++) {
+					text += this.GenerateNode(node.node);
+				}
+
+				return text;
+		}
+	}
+
+	//#endregion
+
+	//#region Parsing
+
+	/**
+	 * Parse a list of sequences separated by |
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @private
+	 * @returns {IRegexNode[][]}
+	 */
+	private ParseAlternatives(): IRegexNode[][] {
+		const alternatives: IRegexNode[][] = [this.ParseSequence()];
+
+		while (this.Peek() === "|") {
+			this.position++;
+			alternatives.push(this.ParseSequence());
+		}
+
+		return alternatives;
+	}
+
+	/**
+	 * Parse a sequence of quantified atoms
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @private
+	 * @returns {IRegexNode[]}
+	 */
+	private ParseSequence(): IRegexNode[] {
+		const nodes: IRegexNode[] = [];
+
+		while (this.position < this.pattern.length && this.Peek() !== "|" && this.Peek() !== ")") {
+			const atom = this.ParseAtom(nodes.length === 0);
+			nodes.push(this.ParseQuantifier(atom));
+		}
+
+		return nodes;
+	}
+
+	/**
+	 * Parse a single character, escape, character class or group
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @private
+	 * @param {boolean} first true when the atom is the first of its sequence
+	 * @returns {IRegexNode}
+	 */
+	private ParseAtom(first: boolean): IRegexNode {
+		const c = this.pattern[this.position++];
+
+		switch (c) {
+			case "(":
+				// non-capturing and capturing groups are treated the same, while lookarounds, named groups and flags are not supported
+				if (this.pattern.startsWith("?:", this.position)) this.position += 2;
+				else if (this.Peek() === "?") throw this.Unsupported(this.pattern.slice(this.position - 1, this.position + 2), this.position - 1);
+
+				this.depth++;
+				const alternatives = this.ParseAlternatives();
+				this.depth--;
+
+				if (this.Peek() !== ")") {
+					throw new Error(`Error: missing ')' in regex '${this.pattern}'`);
+				}
+
+				this.position++;
+				return { type: "group", alternatives };
+
+			case "[":
+				return { type: "set", chars: this.ParseClass() };
+
+			case ".":
+				return { type: "set", chars: CrudioRegex.printable };
+
+			case "\\":
+				const escaped = this.ParseEscape();
+				return escaped.length === 1 ? { type: "literal", value: escaped[0] } : { type: "set", chars: escaped };
+
+			case "^":
+				if (this.depth > 0 || !first) throw this.Unsupported(c, this.position - 1);
+				return { type: "literal", value: "" };
+
+			case "$":
+				if (this.depth > 0 || (this.position < this.pattern.length && this.Peek() !== "|")) throw this.Unsupported(c, this.position - 1);
+				return { type: "literal", value: "" };
+
+			case "*":
+			case "+":
+			case "?":
+			case "{":
+				throw new Error(`Error: quantifier '${c}' at position ${this.position - 1} has nothing to repeat in regex '${this.pattern}'`);
+
+			default:
+				return { type: "literal", value: c };
+		}
+	}
+
+	/**
+	 * Parse an optional quantifier which follows an atom
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @private
+	 * @param {IRegexNode} atom
+	 * @returns {IRegexNode}
+	 */
+	private ParseQuantifier(atom: IRegexNode): IRegexNode {
+		var min: number;
+		var max: number;
+		const c = this.Peek();
+
+		if (c === "?") {
+			min = 0;
+			max = 1;
+		} else if (c === "*") {
+			min = 0;
+			max = this.maxRepeat;
+		} else if (c === "+") {
+			min = 1;
+			max = this.maxRepeat;
+		} else if (c === "{" && /^\{\d+(,\d*)?\}/.test(this.pattern.slice(this.position))) {
+			const end = this.pattern.indexOf("}", this.position);
+			const parts = this.pattern.slice(this.position + 1, end).split(",");
+
+			min = Number(parts[0]);
+			max = parts.length === 1 ? min : parts[1] === "" ? Math.max(min, this.maxRepeat) : Number(parts[1]);
+
+			if (max < min) {
+				throw new Error(`Error: invalid quantifier {${parts.join(",")}} in regex '${this.pattern}'`);
+			}
+
+			this.position = end;
+		} else {
+			return atom;
+		}
+
+		this.position++;
+
+		// lazy and possessive modifiers make no difference when generating text
+		if (this.Peek() === "?" || this.Peek() === "+") this.position++;
+
+		return { type: "repeat", node: atom, min, max };
+	}
+
+	/**
+	 * Parse a character class, e.g. [A-Z0-9_] or [^aeiou]
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @private
+	 * @returns {string[]}
+	 */
+	private ParseClass(): string[] {
+		var chars: string[] = [];
+		var negate = false;
+
+		if (this.Peek() === "^") {
+			negate = true;
+			this.position++;
+		}
+
+		var first = true;
+
+		while (this.position < this.pattern.length && (this.Peek() !== "]" || first)) {
+			first = false;
+			var c = this.pattern[this.position++];
+
+			if (c === "\\") {
+				const escaped = this.ParseEscape();
+
+				if (escaped.length > 1) {
+					chars.push(...escaped);
+					continue;
+				}
+
+				c = escaped[0];
+			}
+
+			// a range such as a-z, where - at the end of the class is a literal
+			if (this.Peek() === "-" && this.pattern[this.position + 1] !== "]" && this.position + 1 < this.pattern.length) {
+				this.position++;
+				var end = this.pattern[this.position++];
+
+				if (end === "\\") end = this.ParseEscape()[0];
+
+				if (end.charCodeAt(0) < c.charCodeAt(0)) {
+					throw new Error(`Error: invalid range ${c}-${end} in regex '${this.pattern}'`);
+				}
+
+				for (var code = c.charCodeAt(0); code <= end.charCodeAt(0); code++) {
+					chars.push(String.fromCharCode(code));
+				}
+			} else {
+				chars.push(c);
+			}
+		}
+
+		if (this.Peek() !== "]") {
+			throw new Error(`Error: missing ']' in regex '${this.pattern}'`);
+		}
+
+		this.position++;
+
+		if (negate) {
+			chars = CrudioRegex.printable.filter(p => !chars.includes(p));
+		}
+
+		if (chars.length === 0) {
+			throw new Error(`Error: empty character class in regex '${this.pattern}'`);
+		}
+
+		return chars;
+	}
+
+	/**
+	 * Parse the character following a \ and return the list of characters it represents
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @private
+	 * @returns {string[]}
+	 */
+	private ParseEscape(): string[] {
+		const digits = "0123456789".split("");
+		const letters = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz".split("");
+		const c = this.pattern[this.position++];
+
+		switch (c) {
+			case "d":
+				return digits;
+
+			case "w":
+				return [...letters, ...digits, "_"];
+
+			case "s":
+				return [" "];
+
+			case "D":
+				return CrudioRegex.printable.filter(p => !digits.includes(p));
+
+			case "W":
+				return CrudioRegex.printable.filter(p => !letters.includes(p) && !digits.includes(p) && p !== "_");
+
+			case "S":
+				return CrudioRegex.printable.filter(p => p !== " ");
+
+			case "t":
+				return ["\t"];
+
+			case "n":
+				return ["\n"];
+
+			case "r":
+				return ["\r"];
+
+			case "f":
+				return ["\f"];
+
+			case "v":
+				return ["\v"];
+
+			// backreferences, word boundaries, character codes and Unicode properties
+			case "0":
+			case "1":
+			case "2":
+			case "3":
+			case "4":
+			case "5":
+			case "6":
+			case "7":
+			case "8":
+			case "9":
+			case "b":
+			case "B":
+			case "k":
+			case "u":
+			case "x":
+			case "c":
+			case "p":
+			case "P":
+				throw this.Unsupported(`\\${c}`, this.position - 2);
+
+			case undefined:
+				throw new Error(`Error: regex '${this.pattern}' ends with an incomplete escape sequence`);
+
+			default:
+				return [c];
+		}
+	}
+
+	/**
+	 * Create the error for syntax which is valid in a regular expression, but which can not be generated
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @private
+	 * @param {string} syntax
+	 * @param {number} position
+	 * @returns {Error}
+	 */
+	private Unsupported(syntax: string, position: number): Error {
+		return new Error(`Error: unsupported regex syntax '${syntax}' at position ${position} in regex '${this.pattern}'`);
+	}
+
+	/**
+	 * Get the character at the current position
+	 * @date 10/19/2026 - 1:15:00 PM
+	 *
+	 * @private
+	 * @returns {string}
+	 */
+	private Peek(): string {
+		return this.pattern[this.position];
+	}
+
+	//#endregion
+}
@@ -1,4 +1,4 @@
-import { ISchemaRelationship } from "./CrudioTypes";
+import { ICrudioHierarchy, ISchemaRelationship } from "./CrudioTypes";
 
 /**
  * An instance of a relationship between two entities
@@ -23,10 +23,16 @@ export default class CrudioRelationship {
 
 		relationship.type = relationship.type.toLowerCase().trim();
 
+		if (["one", "single", "many"].indexOf(relationship.type) < 0) {
+			throw new Error(`Error: relationship to '${relationship.to}' has type '${relationship.type}', which must be one, single or many`);
+		}
 
 		// The user can specify relationships in shorthand, where field values default to the name of the target entity
 		// and its primary key
 		if (!relationship.name && relationship.type != "many") relationship.name = relationship.to;
+
+		// entities in a hierarchy refer to another entity of the same type, so the foreign key is named after the parent
+		if (relationship.hierarchy && !relationship.from_column) relationship.from_column = this.ParentName;
 		if (!relationship.from_column) relationship.from_column = relationship.to;
 		if (!relationship.to_column) relationship.to_column = "id";
 
@@ -37,6 +43,192 @@ export default class CrudioRelationship {
 				relationship.count = 1;
 			}
 		}
+
+		if (relationship.fillRate !== undefined) {
+			if (typeof relationship.fillRate !== "number" || relationship.fillRate < 0 || relationship.fillRate > 1) {
+				throw new Error(`Error: ${this.Description} - fillRate must be a number from 0 to 1`);
+			}
+
+			if (relationship.required && relationship.fillRate < 1) {
+				throw new Error(`Error: ${this.Description} is required, so it can not have a fillRate`);
+			}
+		}
+
+		if (relationship.hierarchy) {
+			const hierarchy = this.Hierarchy;
+
+			if (relationship.type !== "one" || relationship.to !== relationship.from) {
+				throw new Error(`Error: ${this.Description} - a hierarchy must be a one to many relationship from an entity to itself`);
+			}
+
+			if (relationship.required || this.HasCardinality) {
+				throw new Error(`Error: ${this.Description} - the roots of a hierarchy have no parent, so the relationship can not be required, or specify min and max`);
+			}
+
+			["roots", "depth", "branching"].map(option => {
+				if (!Number.isInteger(hierarchy[option]) || hierarchy[option] < 1) {
+					throw new Error(`Error: ${this.Description} - the ${option} of a hierarchy must be a whole number greater than 0, found ${hierarchy[option]}`);
+				}
+			});
+
+			if (this.ParentName === this.ChildrenName) {
+				throw new Error(`Error: ${this.Description} - the parent and children of a hierarchy must have different names`);
+			}
+		}
+
+		if (this.HasCardinality) {
+			const min = this.MinChildren;
+			const max = this.MaxChildren;
+
+			if (relationship.type === "single" && max > 1) {
+				throw new Error(`Error: ${this.Description} - min and max can only be specified for one to many and many to many relationships, or for single relationships where max is 1`);
+			}
+
+			if (!Number.isInteger(min) || !Number.isInteger(max) || min < 0 || max < min) {
+				throw new Error(`Error: ${this.Description} - min and max must be whole numbers, where 0 <= min <= max, found min:${relationship.min} max:${relationship.max}`);
+			}
+
+			if (["uniform", "normal", "zipf"].indexOf(this.Distribution) < 0) {
+				throw new Error(`Error: ${this.Description} - distribution must be uniform, normal or zipf, found '${relationship.distribution}'`);
+			}
+		}
+
+		if (relationship.target_min !== undefined || relationship.target_max !== undefined || relationship.coverage !== undefined) {
+			const min = this.MinTargetLinks;
+			const max = this.MaxTargetLinks;
+
+			if (relationship.type !== "many") {
+				throw new Error(`Error: ${this.Description} - target_min, target_max and coverage can only be specified for many to many relationships`);
+			}
+
+			if (!Number.isInteger(min) || !(Number.isInteger(max) || max === Infinity) || min < 0 || max < min) {
+				throw new Error(
+					`Error: ${this.Description} - target_min and target_max must be whole numbers, where 0 <= target_min <= target_max, found target_min:${relationship.target_min} target_max:${relationship.target_max}`
+				);
+			}
+		}
+	}
+
+	/**
+	 * Indicates a one to one relationship, where each related entity is connected to one entity at most
+	 * @date 10/20/2026 - 12:20:00 AM
+	 *
+	 * @readonly
+	 * @type {boolean}
+	 */
+	get IsSingle(): boolean {
+		return this.relationship.type === "single";
+	}
+
+	/**
+	 * Indicates that the entities are created as a tree, where each entity is connected to its parent
+	 * @date 10/19/2026 - 11:50:00 PM
+	 *
+	 * @readonly
+	 * @type {boolean}
+	 */
+	get IsHierarchy(): boolean {
+		return !!this.relationship.hierarchy;
+	}
+
+	/**
+	 * Options of a hierarchy, with default values in place
+	 * @date 10/19/2026 - 11:50:00 PM
+	 *
+	 * @readonly
+	 * @type {ICrudioHierarchy}
+	 */
+	get Hierarchy(): ICrudioHierarchy {
+		return { roots: 1, ...this.relationship.hierarchy };
+	}
+
+	/**
+	 * Name of the relationship from an entity in a hierarchy to its parent
+	 * @date 10/19/2026 - 11:50:00 PM
+	 *
+	 * @readonly
+	 * @type {string}
+	 */
+	get ParentName(): string {
+		return this.relationship.hierarchy?.parent ?? "Parent";
+	}
+
+	/**
+	 * Name of the relationship from an entity in a hierarchy to its children
+	 * @date 10/19/2026 - 11:50:00 PM
+	 *
+	 * @readonly
+	 * @type {string}
+	 */
+	get ChildrenName(): string {
+		return this.relationship.hierarchy?.children ?? "Children";
+	}
+
+	/**
+	 * Indicates that child entities are created for each parent, with a number of children between min and max,
+	 * or in a many to many relationship, that each entity is connected to between min and max related entities
+	 * @date 10/19/2026 - 10:40:00 PM
+	 *
+	 * @readonly
+	 * @type {boolean}
+	 */
+	get HasCardinality(): boolean {
+		return this.relationship.min !== undefined || this.relationship.max !== undefined;
+	}
+
+	/**
+	 * Least number of child entities for each parent, or related entities for each entity in a many to many relationship
+	 * @date 10/19/2026 - 10:40:00 PM
+	 *
+	 * @readonly
+	 * @type {number}
+	 */
+	get MinChildren(): number {
+		return this.relationship.min ?? 0;
+	}
+
+	/**
+	 * Greatest number of child entities for each parent, or related entities for each entity in a many to many relationship
+	 * @date 10/19/2026 - 10:40:00 PM
+	 *
+	 * @readonly
+	 * @type {number}
+	 */
+	get MaxChildren(): number {
+		return this.relationship.max ?? this.MinChildren;
+	}
+
+	/**
+	 * Least number of entities connected to each related entity in a many to many relationship, which is at least 1 when every related entity must be used
+	 * @date 10/20/2026 - 12:50:00 AM
+	 *
+	 * @readonly
+	 * @type {number}
+	 */
+	get MinTargetLinks(): number {
+		return Math.max(this.relationship.target_min ?? 0, this.relationship.coverage ? 1 : 0);
+	}
+
+	/**
+	 * Greatest number of entities connected to each related entity in a many to many relationship
+	 * @date 10/20/2026 - 12:50:00 AM
+	 *
+	 * @readonly
+	 * @type {number}
+	 */
+	get MaxTargetLinks(): number {
+		return this.relationship.target_max ?? Infinity;
+	}
+
+	/**
+	 * How the number of child entities of each parent is spread between min and max
+	 * @date 10/19/2026 - 10:40:00 PM
+	 *
+	 * @readonly
+	 * @type {string}
+	 */
+	get Distribution(): string {
+		return (this.relationship.distribution ?? "uniform").toLowerCase().trim();
 	}
 
 	/**
@@ -61,6 +253,17 @@ export default class CrudioRelationship {
 		return this.relationship.required;
 	}
 
+	/**
+	 * Fraction of entities which are connected to a related entity, where required relationships are always connected
+	 * @date 10/19/2026 - 11:20:00 PM
+	 *
+	 * @readonly
+	 * @type {number}
+	 */
+	get FillRate(): number {
+		return this.relationship.required ? 1 : this.relationship.fillRate ?? 1;
+	}
+
 	/**
 	 * The referencing entity
 	 * @date 7/18/2022 - 2:14:01 PM
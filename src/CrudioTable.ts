@@ -107,6 +107,35 @@ export default class CrudioTable {
 		this.dataRows = rows;
 	}
 
+	/**
+	 * Relative weight of each data row, used to select rows more or less often when connecting related entities
+	 * @date 10/19/2026 - 10:20:00 AM
+	 *
+	 * @private
+	 * @type {number[]}
+	 */
+	private rowWeights: number[] = null;
+	/**
+	 * Relative weight of each data row, used to select rows more or less often when connecting related entities
+	 * @date 10/19/2026 - 10:20:00 AM
+	 *
+	 * @public
+	 * @type {number[]}
+	 */
+	public get RowWeights(): number[] {
+		return this.rowWeights;
+	}
+	/**
+	 * Relative weight of each data row, used to select rows more or less often when connecting related entities
+	 * @date 10/19/2026 - 10:20:00 AM
+	 *
+	 * @public
+	 * @type {number[]}
+	 */
+	public set RowWeights(weights: number[]) {
+		this.rowWeights = weights;
+	}
+
 	//#endregion
 
 	/**
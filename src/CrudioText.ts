@@ -0,0 +1,261 @@
+import * as fs from "fs";
+
+import CrudioCorpus from "./CrudioCorpus";
+import CrudioUtils from "./CrudioUtils";
+
+/**
+ * Generate long form text, such as sentences, paragraphs and markdown documents, from a corpus of example text
+ * Text is created with a Markov chain, which follows word pairs found in the corpus, or lorem style, which
+ * places random words from the corpus in sentences
+ * @date 10/19/2026 - 4:20:00 PM
+ *
+ * @export
+ * @class CrudioText
+ * @typedef {CrudioText}
+ */
+export default class CrudioText {
+	/**
+	 * Cache of loaded corpus files, where the default corpus has an empty key
+	 * @date 10/19/2026 - 4:20:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @type {Record<string, CrudioText>}
+	 */
+	private static cache: Record<string, CrudioText> = {};
+
+	/**
+	 * Pairs of words which start a sentence
+	 * @date 10/19/2026 - 4:20:00 PM
+	 *
+	 * @private
+	 * @type {string[][]}
+	 */
+	private starts: string[][] = [];
+
+	/**
+	 * Words which follow a pair of words, where null ends a sentence
+	 * @date 10/19/2026 - 4:20:00 PM
+	 *
+	 * @private
+	 * @type {Record<string, (string | null)[]>}
+	 */
+	private chain: Record<string, (string | null)[]> = {};
+
+	/**
+	 * Distinct words in the corpus, without punctuation
+	 * @date 10/19/2026 - 4:20:00 PM
+	 *
+	 * @private
+	 * @type {string[]}
+	 */
+	private words: string[] = [];
+
+	/**
+	 * Creates an instance of CrudioText.
+	 * @date 10/19/2026 - 4:20:00 PM
+	 *
+	 * @constructor
+	 * @param {string} corpus
+	 */
+	constructor(corpus: string) {
+		const sentences = corpus.replace(/\s+/g, " ").match(/[^.!?]+[.!?]+/g) ?? [];
+		const distinct = new Set<string>();
+
+		sentences.map(s => {
+			const w = s.trim().split(" ");
+
+			w.map(word => {
+				const plain = word.replace(/[^\p{L}\p{N}'-]/gu, "").toLowerCase();
+				if (plain) distinct.add(plain);
+			});
+
+			if (w.length < 3) return;
+
+			this.starts.push([w[0], w[1]]);
+
+			for (var i = 0; i < w.length - 1; i++) {
+				const key = `${w[i]} ${w[i + 1]}`;
+				this.chain[key] = this.chain[key] ?? [];
+				this.chain[key].push(i + 2 < w.length ? w[i + 2] : null);
+			}
+		});
+
+		this.words = [...distinct];
+
+		if (this.starts.length === 0) {
+			throw new Error("Error: the text corpus must contain at least one sentence of three or more words");
+		}
+	}
+
+	/**
+	 * Load a corpus from a text file, or the default corpus if no file is specified
+	 * @date 10/19/2026 - 4:20:00 PM
+	 *
+	 * @public
+	 * @static
+	 * @param {?string} [filename]
+	 * @returns {CrudioText}
+	 */
+	public static Load(filename?: string): CrudioText {
+		const key = filename ?? "";
+
+		if (!CrudioText.cache[key]) {
+			if (filename && !fs.existsSync(filename)) {
+				throw new Error(`Error: unable to find the text corpus file '${filename}'`);
+			}
+
+			CrudioText.cache[key] = new CrudioText(filename ? fs.readFileSync(filename, "utf8") : CrudioCorpus);
+		}
+
+		return CrudioText.cache[key];
+	}
+
+	/**
+	 * Generate text
+	 * Options:
+	 * sentences: number of sentences, or paragraph length when paragraphs are used, either a number or a range such as "3>6"
+	 * paragraphs: number of paragraphs, either a number or a range such as "2>4"
+	 * format: "plain" (default) or "markdown", which adds a title and sub headings
+	 * method: "markov" (default) or "lorem"
+	 * @date 10/19/2026 - 4:20:00 PM
+	 *
+	 * @public
+	 * @param {*} options
+	 * @returns {string}
+	 */
+	public Generate(options: any): string {
+		const method = options.method ?? "markov";
+
+		if (method !== "markov" && method !== "lorem") {
+			throw new Error(`Error: text method must be 'markov' or 'lorem', found '${method}'`);
+		}
+
+		const markdown = options.format === "markdown";
+		const paragraphs = options.paragraphs !== undefined || markdown ? CrudioText.GetCount(options.paragraphs, 3) : 0;
+
+		if (paragraphs === 0) {
+			return this.Paragraph(CrudioText.GetCount(options.sentences, 3), method);
+		}
+
+		const text: string[] = [];
+
+		if (markdown) text.push(`# ${this.Heading(method)}`);
+
+		for (var p = 0; p < paragraphs; p++) {
+			if (markdown && p > 0) text.push(`## ${this.Heading(method)}`);
+			text.push(this.Paragraph(CrudioText.GetCount(options.sentences, 4), method));
+		}
+
+		return text.join("\n\n");
+	}
+
+	/**
+	 * Generate a paragraph
+	 * @date 10/19/2026 - 4:20:00 PM
+	 *
+	 * @private
+	 * @param {number} count number of sentences
+	 * @param {string} method
+	 * @returns {string}
+	 */
+	private Paragraph(count: number, method: string): string {
+		const sentences: string[] = [];
+
+		for (var s = 0; s < count; s++) {
+			var sentence: string;
+			var tries = 10;
+
+			// small corpora often repeat a sentence, so try to avoid repeats within a paragraph
+			do {
+				sentence = method === "lorem" ? this.LoremSentence() : this.MarkovSentence();
+			} while (sentences.includes(sentence) && --tries > 0);
+
+			sentences.push(sentence);
+		}
+
+		return sentences.join(" ");
+	}
+
+	/**
+	 * Generate a sentence by following word pairs in the corpus
+	 * @date 10/19/2026 - 4:20:00 PM
+	 *
+	 * @private
+	 * @returns {string}
+	 */
+	private MarkovSentence(): string {
+		const words = [...this.starts[CrudioUtils.GetRandomNumber(0, this.starts.length)]];
+
+		while (words.length < 40) {
+			const next = this.chain[`${words[words.length - 2]} ${words[words.length - 1]}`];
+			const word = next ? next[CrudioUtils.GetRandomNumber(0, next.length)] : null;
+
+			if (word === null) break;
+
+			words.push(word);
+		}
+
+		const sentence = words.join(" ");
+
+		return /[.!?]$/.test(sentence) ? sentence : `${sentence}.`;
+	}
+
+	/**
+	 * Generate a sentence of random words from the corpus
+	 * @date 10/19/2026 - 4:20:00 PM
+	 *
+	 * @private
+	 * @returns {string}
+	 */
+	private LoremSentence(): string {
+		const count = CrudioUtils.GetRandomNumber(6, 15);
+		const words: string[] = [];
+
+		for (var w = 0; w < count; w++) {
+			words.push(this.words[CrudioUtils.GetRandomNumber(0, this.words.length)]);
+		}
+
+		const sentence = words.join(" ");
+
+		return `${sentence[0].toUpperCase()}${sentence.slice(1)}.`;
+	}
+
+	/**
+	 * Generate a short heading without punctuation
+	 * @date 10/19/2026 - 4:20:00 PM
+	 *
+	 * @private
+	 * @param {string} method
+	 * @returns {string}
+	 */
+	private Heading(method: string): string {
+		const sentence = method === "lorem" ? this.LoremSentence() : this.MarkovSentence();
+		const words = sentence.replace(/[.,;:!?]/g, "").split(" ");
+
+		return words.slice(0, CrudioUtils.GetRandomNumber(3, 7)).join(" ");
+	}
+
+	/**
+	 * Get a count from a number or a range such as "2>5"
+	 * @date 10/19/2026 - 4:20:00 PM
+	 *
+	 * @private
+	 * @static
+	 * @param {(number | string | undefined)} value
+	 * @param {number} defaultValue
+	 * @returns {number}
+	 */
+	private static GetCount(value: number | string | undefined, defaultValue: number): number {
+		if (value === undefined || value === null) return defaultValue;
+		if (typeof value === "number") return value;
+
+		const range = String(value).split(">").map(v => parseInt(v, 10));
+
+		if (range.some(v => Number.isNaN(v))) {
+			throw new Error(`Error: '${value}' is not a valid count, use a number or a range such as 2>5`);
+		}
+
+		return range.length === 1 ? range[0] : CrudioUtils.GetRandomNumber(range[0], range[1] + 1);
+	}
+}
@@ -66,6 +66,27 @@ export interface ICrudioConfig {
 	 * @type {string}
 	 */
 	include: string;
+	/**
+	 * Seed for the random number generator, to reproduce the same data on every run
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @type {?string}
+	 */
+	seed?: string;
+	/**
+	 * Locale, or weighted list of locales, used to generate names and addresses, e.g. en-AU or en-AU:70;de-DE:30
+	 * @date 10/19/2026 - 4:55:00 PM
+	 *
+	 * @type {?string}
+	 */
+	locale?: string;
+	/**
+	 * Date used as "now" by date and timestamp generators, e.g. 2024-01-31
+	 * @date 10/20/2026 - 1:00:00 PM
+	 *
+	 * @type {?string}
+	 */
+	referenceDate?: string;
 }
 
 /**
@@ -85,6 +106,31 @@ export interface ICrudioSchemaDefinition {
 	 */
 	assign: ICrudioAssignment[];
 
+	/**
+	 * Seed for the random number generator, to reproduce the same data on every run
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @type {?(string | number)}
+	 */
+	seed?: string | number;
+
+	/**
+	 * Locale, or weighted list of locales, used to generate names and addresses, e.g. en-AU or en-AU:70;de-DE:30
+	 * @date 10/19/2026 - 4:55:00 PM
+	 *
+	 * @type {?string}
+	 */
+	locale?: string;
+
+	/**
+	 * Date used as "now" by date and timestamp generators, e.g. 2024-01-31
+	 * When a seed is specified without a reference date, 2022-01-01 is used
+	 * @date 10/20/2026 - 1:00:00 PM
+	 *
+	 * @type {?string}
+	 */
+	referenceDate?: string;
+
 	/**
 	 * List of other files to include
 	 * @date 7/18/2022 - 1:47:30 PM
@@ -120,6 +166,14 @@ export interface ICrudioSchemaDefinition {
 	 * @type {string[]}
 	 */
 	triggers?: ICrudioTrigger[];
+	/**
+	 * Paths of JavaScript or TypeScript modules which export generator functions, and token functions as an object named functions
+	 * Paths are relative to the data model file
+	 * @date 10/19/2026 - 5:50:00 PM
+	 *
+	 * @type {?string[]}
+	 */
+	plugins?: string[];
 }
 
 export interface ICrudioAssignment {
@@ -232,6 +286,38 @@ export interface ICrudioFieldOptions {
 	 */
 	multi_choice?: boolean;
 
+	/**
+	 * Fewest number of distinct choices to select when multi_choice is true, default 1
+	 * @date 10/19/2026 - 3:50:00 PM
+	 *
+	 * @type {?number}
+	 */
+	min_choices?: number;
+
+	/**
+	 * Greatest number of distinct choices to select when multi_choice is true, defaults to the number of choices
+	 * @date 10/19/2026 - 3:50:00 PM
+	 *
+	 * @type {?number}
+	 */
+	max_choices?: number;
+
+	/**
+	 * Create an array by repeating the field generator the specified number of times
+	 * @date 10/19/2026 - 3:50:00 PM
+	 *
+	 * @type {?number}
+	 */
+	repeat?: number;
+
+	/**
+	 * Fraction of entities, from 0 to 1, where the field is left empty (null), e.g. 0.15. Can not be used with isRequired
+	 * @date 10/19/2026 - 5:30:00 PM
+	 *
+	 * @type {?number}
+	 */
+	nullRate?: number;
+
 	/**
 	 * Lowest allowed value
 	 * @date 7/18/2022 - 1:47:30 PM
@@ -386,6 +472,154 @@ export interface ICrudioEntityDefinition {
 	 * @type {string[]}
 	 */
 	snippets?: string[];
+	/**
+	 * Create rows as a time series for each parent entity, instead of using count
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {?ICrudioTimeSeries}
+	 */
+	timeseries?: ICrudioTimeSeries;
+	/**
+	 * Combinations of fields which must be unique, where a field can be the name of a one to many relationship, e.g. [["firstname", "lastname", "Organisation"]]
+	 * @date 10/19/2026 - 9:10:00 PM
+	 *
+	 * @type {?string[][]}
+	 */
+	unique?: string[][];
+}
+
+/**
+ * Defines a time series, where rows are created at regular intervals across a date window for each parent entity
+ * @date 10/19/2026 - 8:30:00 PM
+ *
+ * @export
+ * @interface ICrudioTimeSeries
+ * @typedef {ICrudioTimeSeries}
+ */
+export interface ICrudioTimeSeries {
+	/**
+	 * Name of the parent entity, which must be the target of a one to many relationship, e.g. Device
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {string}
+	 */
+	parent: string;
+	/**
+	 * Field which receives the timestamp of each row
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {string}
+	 */
+	field: string;
+	/**
+	 * Start of the window, defaults to the end of the window less the number of days
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {?string}
+	 */
+	from?: string;
+	/**
+	 * End of the window, defaults to now
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {?string}
+	 */
+	to?: string;
+	/**
+	 * Length of the window in days when from is not specified, default 7
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {?number}
+	 */
+	days?: number;
+	/**
+	 * Time between rows, e.g. { "minutes": 15 }
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {Record<string, number>}
+	 */
+	interval: Record<string, number>;
+	/**
+	 * Random variation of each timestamp, as a fraction of the interval from 0 to 1
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {?number}
+	 */
+	jitter?: number;
+	/**
+	 * Fields whose values follow a random walk, trend and seasonality
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {?Record<string, ICrudioSeriesValue>}
+	 */
+	values?: Record<string, ICrudioSeriesValue>;
+}
+
+/**
+ * Defines how the values of a field change across a time series
+ * @date 10/19/2026 - 8:30:00 PM
+ *
+ * @export
+ * @interface ICrudioSeriesValue
+ * @typedef {ICrudioSeriesValue}
+ */
+export interface ICrudioSeriesValue {
+	/**
+	 * First value, defaults to the middle of min and max
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {?number}
+	 */
+	start?: number;
+	/**
+	 * Lowest value
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {?number}
+	 */
+	min?: number;
+	/**
+	 * Highest value
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {?number}
+	 */
+	max?: number;
+	/**
+	 * Standard deviation of the random walk at each row, 0 for no random walk
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {?number}
+	 */
+	step?: number;
+	/**
+	 * Change of value at each row
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {?number}
+	 */
+	trend?: number;
+	/**
+	 * Height of the seasonal cycle above and below the value
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {?number}
+	 */
+	amplitude?: number;
+	/**
+	 * Length of the seasonal cycle, default { "days": 1 }
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {?Record<string, number>}
+	 */
+	period?: Record<string, number>;
+	/**
+	 * Number of decimal places, default 2
+	 * @date 10/19/2026 - 8:30:00 PM
+	 *
+	 * @type {?number}
+	 */
+	precision?: number;
 }
 
 /**
@@ -442,8 +676,10 @@ export interface ISchemaRelationship {
 	name: string;
 	/**
 	 * "one" for one to many
+	 * "single" for one to one
 	 * "many" for many to many
 	 * one to many will be implemented as a forgeign key between a child table and parent
+	 * one to one will be implemented as a unique foreign key, so each parent is connected to one child at most
 	 * many to many will be implemented through a join table with a foreign key to the related entities
 	 * @date 7/18/2022 - 1:47:30 PM
 	 *
@@ -485,6 +721,121 @@ export interface ISchemaRelationship {
 	 * @type {Record<string, unknown>[]}
 	 */
 	fields?: Record<string, unknown>[];
+
+	/**
+	 * Fraction of entities, from 0 to 1, which are connected to a related entity in an optional one to many relationship, e.g. 0.8. Can not be used with required
+	 * @date 10/19/2026 - 11:20:00 PM
+	 *
+	 * @type {?number}
+	 */
+	fillRate?: number;
+
+	/**
+	 * Least number of child entities to create for each parent in a one to many relationship, e.g. each organisation has at least 5 employees,
+	 * or the least number of related entities to connect to each entity in a many to many relationship
+	 * @date 10/19/2026 - 10:40:00 PM
+	 *
+	 * @type {?number}
+	 */
+	min?: number;
+
+	/**
+	 * Greatest number of child entities to create for each parent in a one to many relationship, defaults to min,
+	 * or the greatest number of related entities to connect to each entity in a many to many relationship
+	 * @date 10/19/2026 - 10:40:00 PM
+	 *
+	 * @type {?number}
+	 */
+	max?: number;
+
+	/**
+	 * Least number of entities to connect to each related entity in a many to many relationship, e.g. each tag is used by at least 2 blogs
+	 * @date 10/20/2026 - 12:50:00 AM
+	 *
+	 * @type {?number}
+	 */
+	target_min?: number;
+
+	/**
+	 * Greatest number of entities to connect to each related entity in a many to many relationship
+	 * @date 10/20/2026 - 12:50:00 AM
+	 *
+	 * @type {?number}
+	 */
+	target_max?: number;
+
+	/**
+	 * If true, every related entity in a many to many relationship is connected to at least one entity, e.g. every tag is used
+	 * @date 10/20/2026 - 12:50:00 AM
+	 *
+	 * @type {?boolean}
+	 */
+	coverage?: boolean;
+
+	/**
+	 * How the number of child entities of each parent is spread between min and max
+	 * uniform: every number is equally likely
+	 * normal: numbers near the middle of min and max are most likely
+	 * zipf: most parents have few children, and a few parents have many children
+	 * @date 10/19/2026 - 10:40:00 PM
+	 *
+	 * @type {?string}
+	 */
+	distribution?: string;
+
+	/**
+	 * Create the entities as a tree, where the relationship connects each entity to its parent, e.g. categories and sub categories
+	 * @date 10/19/2026 - 11:50:00 PM
+	 *
+	 * @type {?ICrudioHierarchy}
+	 */
+	hierarchy?: ICrudioHierarchy;
+}
+
+/**
+ * Defines a tree of entities, created through a one to many relationship from an entity to itself
+ * @date 10/19/2026 - 11:50:00 PM
+ *
+ * @export
+ * @interface ICrudioHierarchy
+ * @typedef {ICrudioHierarchy}
+ */
+export interface ICrudioHierarchy {
+	/**
+	 * Number of entities at the top of the tree, which have no parent, default 1
+	 * @date 10/19/2026 - 11:50:00 PM
+	 *
+	 * @type {?number}
+	 */
+	roots?: number;
+	/**
+	 * Number of levels in the tree, including the roots
+	 * @date 10/19/2026 - 11:50:00 PM
+	 *
+	 * @type {number}
+	 */
+	depth: number;
+	/**
+	 * Number of children of each entity, except those at the lowest level
+	 * @date 10/19/2026 - 11:50:00 PM
+	 *
+	 * @type {number}
+	 */
+	branching: number;
+	/**
+	 * Name of the relationship from an entity to its parent, which also names the foreign key column, default Parent
+	 * @date 10/19/2026 - 11:50:00 PM
+	 *
+	 * @type {?string}
+	 */
+	parent?: string;
+	/**
+	 * Name of the relationship from an entity to its children, default Children
+	 * @date 10/19/2026 - 11:50:00 PM
+	 *
+	 * @type {?string}
+	 */
+	children?: string;
 }
 
 /**
@@ -565,7 +916,85 @@ export interface ICrudioGenerator {
 	 * Configuration of how to build a data value
 	 * @date 8/2/2022 - 12:11:48 PM
 	 *
-	 * @type {string}
+	 * @type {(string | Record<string, any>)}
 	 */
-	values: string;
+	values: string | Record<string, any>;
+	/**
+	 * Indicates the values are a JSON template, whose leaves can contain tokens, and which creates an object
+	 * @date 10/19/2026 - 3:20:00 PM
+	 *
+	 * @type {?boolean}
+	 */
+	isJson?: boolean;
+}
+
+/**
+ * A geographic point, using the GeoJSON format where coordinates are [longitude, latitude]
+ * @date 10/19/2026 - 7:45:00 PM
+ *
+ * @export
+ * @interface ICrudioPoint
+ * @typedef {ICrudioPoint}
+ */
+export interface ICrudioPoint {
+	/**
+	 * GeoJSON geometry type
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @type {"Point"}
+	 */
+	type: "Point";
+	/**
+	 * [longitude, latitude]
+	 * @date 10/19/2026 - 7:45:00 PM
+	 *
+	 * @type {number[]}
+	 */
+	coordinates: number[];
+}
+
+/**
+ * An attempt to generate the values of an entity, which is repeated when a unique value is already in use
+ * @date 10/20/2026 - 9:30:00 AM
+ *
+ * @export
+ * @interface ICrudioGenerationPass
+ * @typedef {ICrudioGenerationPass}
+ */
+export interface ICrudioGenerationPass {
+	/**
+	 * Temporary entity which receives the generated values
+	 * @date 10/20/2026 - 9:30:00 AM
+	 *
+	 * @type {*}
+	 */
+	entity: any;
+	/**
+	 * False when a generated value is already in use
+	 * @date 10/20/2026 - 9:30:00 AM
+	 *
+	 * @type {boolean}
+	 */
+	ok: boolean;
+	/**
+	 * Unique values taken by this attempt, as [field name, value], released when the attempt fails
+	 * @date 10/20/2026 - 9:30:00 AM
+	 *
+	 * @type {[string, any][]}
+	 */
+	unique_values: [string, any][];
+	/**
+	 * Fields being generated, used to detect fields which refer to each other
+	 * @date 10/20/2026 - 9:30:00 AM
+	 *
+	 * @type {string[]}
+	 */
+	generating: string[];
+	/**
+	 * Remaining attempts
+	 * @date 10/20/2026 - 9:30:00 AM
+	 *
+	 * @type {number}
+	 */
+	maxtries: number;
 }
@@ -1,4 +1,6 @@
-import { Duration } from "luxon";
+import { DateTime, Duration } from "luxon";
+
+import CrudioRandom from "./CrudioRandom";
 
 /**
  * General utility methods
@@ -9,6 +11,40 @@ import { Duration } from "luxon";
  * @typedef {CrudioUtils}
  */
 export default class CrudioUtils {
+	/**
+	 * Source of all random values used to generate data
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @private
+	 * @static
+	 * @type {CrudioRandom}
+	 */
+	private static random: CrudioRandom = new CrudioRandom();
+	/**
+	 * Source of all random values used to generate data
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @public
+	 * @static
+	 * @readonly
+	 * @type {CrudioRandom}
+	 */
+	public static get Random(): CrudioRandom {
+		return CrudioUtils.random;
+	}
+
+	/**
+	 * Reset the random number generator, so that the same seed will reproduce the same sequence of values
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @public
+	 * @static
+	 * @param {(string | number)} [seed]
+	 */
+	public static SetRandomSeed(seed?: string | number): void {
+		CrudioUtils.random.Seed(seed);
+	}
+
 	static DateDuration(diff: any): Duration {
 		var d: any = {};
 
@@ -44,6 +80,29 @@ export default class CrudioUtils {
 		return d;
 	}
 
+	/**
+	 * Parse a date which is in the specified format, or ISO format, or a loose year-month-day format such as 1980-3-7
+	 * @date 10/19/2026 - 11:55:00 AM
+	 *
+	 * @public
+	 * @static
+	 * @param {string} value
+	 * @param {string} format
+	 * @returns {DateTime}
+	 */
+	public static ParseDate(value: string, format: string): DateTime {
+		const text = String(value).trim();
+		const formats = [format, "yyyy-M-d H:m:s", "yyyy-M-d"];
+
+		var date = DateTime.fromISO(text, { zone: "utc" });
+
+		for (var i = 0; i < formats.length && !date.isValid; i++) {
+			date = DateTime.fromFormat(text, formats[i], { zone: "utc" });
+		}
+
+		return date;
+	}
+
 	/**
 	 * Create a plural form of a noun string
 	 * @date 7/18/2022 - 3:57:13 PM
@@ -83,6 +142,7 @@ export default class CrudioUtils {
 
 	/**
 	 * Randomly select a word from a separated list
+	 * Words can be given weights, e.g. "Staff:80;Manager:15;Director:5", so that some words are selected more often than others
 	 * @date 7/28/2022 - 1:30:00 PM
 	 *
 	 * @private
@@ -90,14 +150,76 @@ export default class CrudioUtils {
 	 * @returns {*}
 	 */
 	public static GetRandomStringFromList(content: string, seperator = ";") {
-		const words: string[] = content.replace(/(^;)|(;$)/g, "").split(seperator);
-		const rndWord: number = Math.random();
-		const index: number = Math.floor(words.length * rndWord);
-		const value = words[index];
+		const list = CrudioUtils.ParseWeightedList(content, seperator);
+		const index: number = CrudioUtils.GetWeightedRandomIndex(list.weights);
+		const value = list.values[index];
 
 		return value;
 	}
 
+	/**
+	 * Split a separated list into its values and their weights
+	 * Weights are recognised when every value in the list has a ":weight" suffix, otherwise all values have the same weight
+	 * A ":" which is part of a value is escaped as "\:", e.g. "09\:00:80;17\:30:20" or "09\:00;17\:30"
+	 * @date 10/19/2026 - 10:20:00 AM
+	 *
+	 * @public
+	 * @static
+	 * @param {string} content
+	 * @param {string} [seperator=";"]
+	 * @returns {{ values: string[]; weights: number[] }}
+	 */
+	public static ParseWeightedList(content: string, seperator = ";"): { values: string[]; weights: number[] } {
+		const words: string[] = content.split(seperator).filter(w => w.length > 0);
+		const matches = words.map(w => w.match(/^((?:[^\\:]|\\.)*):(\d+(?:\.\d+)?)$/s));
+		const unescape = (value: string) => value.replace(/\\:/g, ":");
+
+		if (words.length > 0 && matches.every(m => m !== null)) {
+			return {
+				values: matches.map(m => unescape(m[1])),
+				weights: matches.map(m => Number(m[2])),
+			};
+		}
+
+		if (matches.some(m => m !== null)) {
+			throw new Error(
+				`Error: the list '${content}' gives a weight to some values but not others. Give every value a weight, e.g. Staff:80;Manager:20, and escape a ':' which is part of a value as \\:, e.g. 09\\:00`
+			);
+		}
+
+		return {
+			values: words.map(unescape),
+			weights: words.map(() => 1),
+		};
+	}
+
+	/**
+	 * Randomly select an index from a list of weights, where the chance of each index being selected is proportional to its weight
+	 * @date 10/19/2026 - 10:20:00 AM
+	 *
+	 * @public
+	 * @static
+	 * @param {number[]} weights
+	 * @returns {number}
+	 */
+	public static GetWeightedRandomIndex(weights: number[]): number {
+		const total = weights.reduce((sum, w) => sum + w, 0);
+
+		if (total <= 0) {
+			throw new Error(`Error: weighted list must have at least one weight greater than zero. Weights: ${weights}`);
+		}
+
+		var threshold = CrudioUtils.random.Next() * total;
+
+		for (var i = 0; i < weights.length; i++) {
+			threshold -= weights[i];
+
+			if (threshold < 0) return i;
+		}
+
+		return weights.length - 1;
+	}
+
 	/**
 	 * Get a random number >= min and <= max
 	 * @date 7/18/2022 - 3:39:38 PM
@@ -109,10 +231,147 @@ export default class CrudioUtils {
 	 * @returns {number}
 	 */
 	public static GetRandomNumber(min: number, max: number): number {
-		var rndValue: number = Math.random();
+		var rndValue: number = CrudioUtils.random.Next();
 		return Math.floor((max - min) * rndValue) + min;
 	}
 
+	/**
+	 * Get a random decimal number >= min and < max, rounded to the specified number of decimal places
+	 * @date 10/19/2026 - 11:10:00 AM
+	 *
+	 * @public
+	 * @static
+	 * @param {number} min
+	 * @param {number} max
+	 * @param {number} precision
+	 * @returns {number}
+	 */
+	public static GetRandomDecimal(min: number, max: number, precision: number): number {
+		const value = (max - min) * CrudioUtils.random.Next() + min;
+		return CrudioUtils.Round(value, precision);
+	}
+
+	/**
+	 * Get a random number from a normal (gaussian) distribution, using the Box-Muller transform
+	 * @date 10/19/2026 - 11:10:00 AM
+	 *
+	 * @public
+	 * @static
+	 * @param {number} mean
+	 * @param {number} stddev
+	 * @returns {number}
+	 */
+	public static GetRandomNormal(mean: number, stddev: number): number {
+		// 1 - Next() avoids log(0)
+		const u1 = 1 - CrudioUtils.random.Next();
+		const u2 = CrudioUtils.random.Next();
+		const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+
+		return mean + z * stddev;
+	}
+
+	/**
+	 * Get a random number from a log-normal distribution, where mu and sigma describe the underlying normal distribution
+	 * @date 10/19/2026 - 11:10:00 AM
+	 *
+	 * @public
+	 * @static
+	 * @param {number} mu
+	 * @param {number} sigma
+	 * @returns {number}
+	 */
+	public static GetRandomLogNormal(mu: number, sigma: number): number {
+		return Math.exp(CrudioUtils.GetRandomNormal(mu, sigma));
+	}
+
+	/**
+	 * Get a random number from an exponential distribution, e.g. the time between events which occur at a constant average rate
+	 * @date 10/19/2026 - 11:10:00 AM
+	 *
+	 * @public
+	 * @static
+	 * @param {number} rate
+	 * @returns {number}
+	 */
+	public static GetRandomExponential(rate: number): number {
+		return -Math.log(1 - CrudioUtils.random.Next()) / rate;
+	}
+
+	/**
+	 * Get a random integer from a Poisson distribution, e.g. the number of events occurring in a fixed interval
+	 * @date 10/19/2026 - 11:10:00 AM
+	 *
+	 * @public
+	 * @static
+	 * @param {number} lambda
+	 * @returns {number}
+	 */
+	public static GetRandomPoisson(lambda: number): number {
+		// Knuth's algorithm becomes slow and underflows for large values of lambda, where the normal approximation is accurate
+		if (lambda > 30) {
+			return Math.max(0, Math.round(CrudioUtils.GetRandomNormal(lambda, Math.sqrt(lambda))));
+		}
+
+		const limit = Math.exp(-lambda);
+		var k = 0;
+		var p = 1;
+
+		do {
+			k++;
+			p *= CrudioUtils.random.Next();
+		} while (p > limit);
+
+		return k - 1;
+	}
+
+	/**
+	 * Round a number to the specified number of decimal places
+	 * @date 10/19/2026 - 11:10:00 AM
+	 *
+	 * @public
+	 * @static
+	 * @param {number} value
+	 * @param {number} precision
+	 * @returns {number}
+	 */
+	public static Round(value: number, precision: number): number {
+		const factor = Math.pow(10, precision);
+		return Math.round(value * factor) / factor;
+	}
+
+	/**
+	 * Get a copy of a list in random order
+	 * @date 10/20/2026 - 12:20:00 AM
+	 *
+	 * @public
+	 * @static
+	 * @template T
+	 * @param {T[]} list
+	 * @returns {T[]}
+	 */
+	public static Shuffle<T>(list: T[]): T[] {
+		const shuffled = [...list];
+
+		for (var i = shuffled.length - 1; i > 0; i--) {
+			const j = CrudioUtils.GetRandomNumber(0, i + 1);
+			[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+		}
+
+		return shuffled;
+	}
+
+	/**
+	 * Create a random UUID
+	 * @date 10/19/2026 - 9:05:00 AM
+	 *
+	 * @public
+	 * @static
+	 * @returns {string}
+	 */
+	public static GetRandomUuid(): string {
+		return CrudioUtils.random.Uuid();
+	}
+
 
 	/**
 	 * Ensure column text has Id appended if not present
@@ -99,9 +99,23 @@ setTimeout(async () => {
 	console.log(`Loading Crudio data model definition from: "${config.datamodel}"`);
 	console.log();
 
-	const datamodel = CrudioDataModel.FromJson(config.datamodel, true, config.include);
+	const datamodel = CrudioDataModel.FromJson(config.datamodel, false, config.include);
 	console.log("Data model definition loaded");
 
+	if (config.seed !== undefined) {
+		datamodel.Seed = config.seed;
+	}
+
+	if (config.locale !== undefined) {
+		datamodel.Locale = config.locale;
+	}
+
+	if (config.referenceDate !== undefined) {
+		datamodel.ReferenceDate = config.referenceDate;
+	}
+
+	datamodel.FillDataTables();
+
 	const db = new CrudioDataWrapper(config, datamodel);
 	console.log("Data model populated");
 
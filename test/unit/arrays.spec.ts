@@ -0,0 +1,32 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+import { CrudioJson } from "../../src/CrudioJson";
+
+describe("Array fields", () => {
+	test("Array fields from multi_choice and repeat", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/arrays.json");
+
+		const widgets = repo.GetTable("Widgets");
+
+		widgets.DataRows.map(w => {
+			const v = w.DataValues;
+
+			expect(v.colours.length).toBeGreaterThanOrEqual(2);
+			expect(v.colours.length).toBeLessThanOrEqual(3);
+			expect(new Set(v.colours).size).toEqual(v.colours.length);
+			v.colours.map((c: string) => expect(["red", "green", "blue", "black"]).toContain(c));
+
+			expect(new Set(v.sizes).size).toEqual(v.sizes.length);
+			v.sizes.map((s: number) => expect([1, 2, 3]).toContain(s));
+
+			expect(v.scores.length).toEqual(4);
+			v.scores.map((s: number) => expect(Number.isInteger(s)).toEqual(true));
+		});
+
+		const field_types = ["colours", "sizes", "scores"].map(f => widgets.EntityDefinition.GetField(f).GetDatabaseFieldType);
+		expect(field_types).toEqual(["text[]", "integer[]", "integer[]"]);
+
+		const schema = CrudioJson.LoadJson("test/unit/data/arrays.json");
+		schema.entities.Widget.fields.sizes = { multi_choice: true, choices: "1;2", min_choices: 3 };
+		expect(() => new CrudioDataModel(schema)).toThrow("requires 3 choices");
+	});
+});
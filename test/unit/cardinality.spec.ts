@@ -0,0 +1,62 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+import { CrudioJson } from "../../src/CrudioJson";
+
+describe("Child cardinality", () => {
+	const StaffPerShop = (repo: CrudioDataModel): number[] => repo.GetTable("Shops").DataRows.map(s => s.DataValues.Staffs?.length ?? 0);
+
+	const ShopModel = (shops: number, relationship: Record<string, unknown>) => {
+		const schema = CrudioJson.LoadJson("test/unit/data/cardinality.json");
+		schema.entities.Shop.count = shops;
+		schema.entities.Staff.relationships[0] = { type: "one", to: "Shop", ...relationship };
+
+		return new CrudioDataModel(schema);
+	};
+
+	test("Each parent has between min and max children, and the child count is derived from them", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/cardinality.json");
+		const counts = StaffPerShop(repo);
+
+		counts.map(c => expect(c >= 5 && c <= 20).toBeTruthy());
+		expect(new Set(counts).size).toBeGreaterThan(5);
+		expect(repo.GetTable("Staffs").DataRows.length).toEqual(counts.reduce((n, c) => n + c, 0));
+		repo.GetTable("Staffs").DataRows.map(s => expect(s.DataValues.Shop.DataValues.Staffs).toContain(s));
+
+		expect(StaffPerShop(ShopModel(3, { min: 100 }))).toEqual([100, 100, 100]);
+	});
+
+	test("Child counts follow normal and zipf distributions", () => {
+		const mean = (counts: number[]) => counts.reduce((n, c) => n + c, 0) / counts.length;
+
+		const normal = StaffPerShop(ShopModel(200, { min: 0, max: 30, distribution: "normal" }));
+		expect(Math.abs(mean(normal) - 15)).toBeLessThan(1.5);
+		expect(normal.filter(c => c >= 10 && c <= 20).length).toBeGreaterThan(120);
+		expect(normal.filter(c => c >= 5 && c <= 25).length).toBeGreaterThan(180);
+
+		const zipf = StaffPerShop(ShopModel(200, { min: 0, max: 30, distribution: "zipf" }));
+		expect(zipf.filter(c => c <= 3).length).toBeGreaterThan(zipf.filter(c => c >= 27).length * 3);
+		expect(Math.max(...zipf)).toBeGreaterThan(15);
+
+		expect(() => ShopModel(40, { min: 5, max: 2 })).toThrow("min and max must be whole numbers, where 0 <= min <= max");
+		expect(() => ShopModel(40, { min: 1, distribution: "poisson" })).toThrow("distribution must be uniform, normal or zipf");
+	});
+
+	test("Parent tables are filled once, before the entities which are created for each parent", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/regions.json");
+
+		const regions = repo.GetTable("Regions").DataRows;
+		const shops = repo.GetTable("Shops").DataRows;
+		const staff = repo.GetTable("Staffs").DataRows;
+
+		expect([regions.length, shops.length, staff.length]).toEqual([3, 3, 6]);
+		shops.map(s => expect(regions).toContain(s.DataValues.Region));
+		staff.map(s => expect(shops).toContain(s.DataValues.Shop));
+
+		const schema = CrudioJson.LoadJson("test/unit/data/regions.json");
+		schema.entities = {
+			Hen: { inherits: "Entity", relationships: [{ type: "one", to: "Egg", min: 1, max: 1 }] },
+			Egg: { inherits: "Entity", relationships: [{ type: "one", to: "Hen", min: 1, max: 1 }] },
+		};
+
+		expect(() => new CrudioDataModel(schema)).toThrow("Hens can not be filled, because its entities are created for each entity of a table which needs it first: Hens -> Eggs -> Hens");
+	});
+});
@@ -11,4 +11,25 @@ describe("Test command line options", () => {
         expect(cfg.datamodel).toEqual("datamodel/datamodel.json")
         expect(cfg.include).toEqual("repo/include.json")
     });
+
+    test("Should parse the random seed option", () => {
+        const args = ["node", "crudio", "-m", "datamodel/datamodel.json", "--seed", "1234"];
+        const cli = new CrudioCLI(args);
+
+        expect(cli.Config.seed).toEqual("1234");
+    });
+
+    test("Should parse the locale option", () => {
+        const args = ["node", "crudio", "-m", "datamodel/datamodel.json", "--locale", "en-AU:70;de-DE:30"];
+        const cli = new CrudioCLI(args);
+
+        expect(cli.Config.locale).toEqual("en-AU:70;de-DE:30");
+    });
+
+    test("Should parse the reference date option", () => {
+        const args = ["node", "crudio", "-m", "datamodel/datamodel.json", "--seed", "1234", "--referenceDate", "2024-01-31"];
+        const cli = new CrudioCLI(args);
+
+        expect(cli.Config.referenceDate).toEqual("2024-01-31");
+    });
 });
\ No newline at end of file
@@ -0,0 +1,27 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+import { CrudioJson } from "../../src/CrudioJson";
+
+describe("Unique combinations", () => {
+	test("Combinations of fields and related entities are unique", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/combinations.json");
+		const players = repo.GetTable("Players").DataRows;
+		const keys = players.map(p => `${p.DataValues.first} ${p.DataValues.last} ${p.DataValues.Team.DataValues.id}`);
+
+		expect(new Set(keys).size).toEqual(12);
+
+		// every player is listed by the team it is connected to, and only that team
+		const teams = repo.GetTable("Teams").DataRows;
+		expect(teams.reduce((n, t) => n + t.DataValues.Players.length, 0)).toEqual(12);
+		teams.map(t => t.DataValues.Players.map((p: any) => expect(p.DataValues.Team).toBe(t)));
+	});
+
+	test("Constraints which can not be met are errors", () => {
+		const too_many = CrudioJson.LoadJson("test/unit/data/combinations.json");
+		too_many.entities.Player.count = 13;
+		expect(() => new CrudioDataModel(too_many)).toThrow("Player needs 13 unique combinations of first, last, Team, but can create at most 12");
+
+		const unrelated = CrudioJson.LoadJson("test/unit/data/combinations.json");
+		unrelated.entities.Thing = { inherits: "Entity", unique: [["name", "Owner"]], fields: { name: {} } };
+		expect(() => new CrudioDataModel(unrelated)).toThrow("unique constraint of 'Thing' refers to 'Owner', which is not a field or a one to many relationship");
+	});
+});
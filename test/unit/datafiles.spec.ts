@@ -0,0 +1,20 @@
+import * as fs from "fs";
+
+import CrudioDataModel from "../../src/CrudioDataModel";
+
+describe("Data files", () => {
+	test("Generators read values from CSV and text files relative to the data model file", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/cities.json", false);
+		repo.FillDataTables();
+
+		const offices = repo.GetTable("Offices").DataRows.map(o => o.DataValues);
+		expect(new Set(offices.map(o => o.city))).toEqual(new Set(["Sydney", "Washington, D.C.", 'The "Big Apple"', "Berlin"]));
+		expect(new Set(offices.map(o => o.country))).toEqual(new Set(["Australia", "United States", "Germany"]));
+
+		const names = fs.readFileSync("datamodel/data/firstname.txt", "utf8").split("\n");
+		repo.GetTable("Contacts").DataRows.map(c => expect(names).toContain(c.DataValues.firstname));
+
+		expect(() => repo.GetGeneratedValue("missing_column")).toThrow("generator 'missing_column' - Error: data file 'test/unit/data/cities.csv' does not have a column 'mayor'");
+		expect(() => repo.GetGeneratedValue("missing_file")).toThrow("unable to find the data file 'test/unit/data/missing.txt'");
+	});
+});
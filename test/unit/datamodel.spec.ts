@@ -130,6 +130,38 @@ describe("Create datamodel", () => {
 		});
 	});
 
+	test("Same seed generates identical data", () => {
+		const first = CrudioDataModel.FromJson("datamodel/datamodel.json", false);
+		first.Seed = 42;
+		first.FillDataTables();
+
+		const second = CrudioDataModel.FromJson("datamodel/datamodel.json", false);
+		second.Seed = 42;
+		second.FillDataTables();
+
+		expect(second.ToString()).toEqual(first.ToString());
+
+		const other = CrudioDataModel.FromJson("datamodel/datamodel.json", false);
+		other.Seed = 43;
+		other.FillDataTables();
+
+		expect(other.GetTable("Users").DataRows[0].DataValues.id).not.toEqual(first.GetTable("Users").DataRows[0].DataValues.id);
+
+		// timestamps are the reference date, which is a fixed date when it is not specified
+		expect(first.GetTable("Users").DataRows[0].DataValues.created).toEqual("2022-01-01T00:00:00.000");
+
+		const dated = CrudioDataModel.FromJson("datamodel/datamodel.json", false);
+		dated.Seed = 42;
+		dated.ReferenceDate = "2024-01-31";
+		dated.FillDataTables();
+
+		expect(dated.GetTable("Users").DataRows[0].DataValues.created).toEqual("2024-01-31T00:00:00.000");
+		expect(dated.GetTable("Users").DataRows[0].DataValues.id).toEqual(first.GetTable("Users").DataRows[0].DataValues.id);
+
+		dated.ReferenceDate = "31st January";
+		expect(() => dated.FillDataTables()).toThrow("the reference date '31st January' is not a valid date");
+	});
+
 	test("Save and load database using flatted form", () => {
 		const repo = CrudioDataModel.FromJson("datamodel/datamodel.json");
 		repo.Save("test/unit/output/fake.flat.json");
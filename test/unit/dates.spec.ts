@@ -0,0 +1,24 @@
+import { DateTime } from "luxon";
+
+import CrudioDataModel from "../../src/CrudioDataModel";
+
+describe("Date generators", () => {
+	test("Absolute and field relative dates", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/dates.json");
+
+		repo.GetTable("Projects").DataRows.map(p => {
+			const start = DateTime.fromISO(p.DataValues.start_date, { zone: "utc" });
+			expect(start.year).toEqual(2020);
+			expect(start.weekday).toBeLessThanOrEqual(5);
+			expect(p.DataValues.finish_date > p.DataValues.start_date).toEqual(true);
+		});
+
+		repo.GetTable("Tasks").DataRows.map(t => {
+			expect(t.DataValues.due > t.DataValues.Project.DataValues.finish_date).toEqual(true);
+		});
+
+		expect(repo.GetGeneratedValue("meeting")).toEqual("Wednesday");
+		expect(repo.GetGeneratedValue("alarm")).toMatch(/^\d\d:\d\d:\d\d$/);
+		expect(() => repo.GetGeneratedValue("finish")).toThrow("start_date");
+	});
+});
@@ -0,0 +1,31 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+
+describe("Numeric distributions", () => {
+	test("Decimal ranges and statistical distributions", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/distributions.json");
+
+		const prices: number[] = [];
+		const heights: number[] = [];
+		const arrivals: number[] = [];
+
+		for (var i = 0; i < 500; i++) {
+			prices.push(repo.GetGeneratedValue("price"));
+			heights.push(repo.GetGeneratedValue("person_height"));
+			arrivals.push(repo.GetGeneratedValue("arrivals"));
+
+			expect(repo.GetGeneratedValue("income")).toBeGreaterThan(0);
+			expect(repo.GetGeneratedValue("wait")).toBeGreaterThanOrEqual(0);
+		}
+
+		expect(prices.every(p => p >= 0.5 && p <= 99.99 && Number(p.toFixed(2)) === p)).toEqual(true);
+		expect(prices.some(p => !Number.isInteger(p))).toEqual(true);
+		expect(heights.every(h => h >= 150 && h <= 190)).toEqual(true);
+		expect(arrivals.every(a => Number.isInteger(a) && a >= 0)).toEqual(true);
+
+		const mean_height = heights.reduce((sum, h) => sum + h, 0) / heights.length;
+		expect(Math.abs(mean_height - 170)).toBeLessThan(3);
+
+		expect(() => repo.GetGeneratedValue("broken")).toThrow("stddev");
+		expect(() => repo.GetGeneratedValue("misspelt")).toThrow("Error: unknown generator kind 'weigthed' in generator 'misspelt'");
+	});
+});
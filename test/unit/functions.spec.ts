@@ -0,0 +1,59 @@
+import { DateTime } from "luxon";
+
+import CrudioDataModel from "../../src/CrudioDataModel";
+import { CrudioJson } from "../../src/CrudioJson";
+
+describe("Token functions", () => {
+	test("Functions transform field and generator values", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/functions.json");
+
+		repo.GetTable("Clubs").DataRows.map(c => expect(c.DataValues.slug).toMatch(/^[a-z0-9]+(-[a-z0-9]+)*$/));
+
+		repo.GetTable("Members").DataRows.map(m => {
+			const v = m.DataValues;
+			expect(v.code).toEqual(`${v.firstname.slice(0, 3).toUpperCase()}-${String(v.number).padStart(6, "0")}`);
+			expect(v.joined_year).toEqual(v.joined.slice(0, 4));
+			expect(v.login).toEqual(`${v.firstname[0].toLowerCase()}${v.lastname.toLowerCase()}@${v.Club.DataValues.slug}.com`);
+			expect(v.shout).toEqual(v.shout.toUpperCase());
+			expect(v.shout).not.toContain("[");
+		});
+	});
+
+	test("Fields referenced before they are generated keep their unique values and null rate", () => {
+		[1, 2, 3, 4, 5].map(seed => {
+			const repo = CrudioDataModel.FromJson("test/unit/data/references.json", false);
+			repo.Seed = seed;
+			repo.FillDataTables();
+
+			const accounts = repo.GetTable("Accounts").DataRows.map(a => a.DataValues);
+			const next_day = (date: string) => DateTime.fromISO(date, { zone: "utc" }).plus({ days: 1 }).toFormat("yyyy-MM-dd");
+
+			expect(new Set(accounts.map(a => a.email)).size).toEqual(4);
+			expect(new Set(accounts.map(a => a.opened)).size).toEqual(4);
+
+			accounts.map(a => {
+				expect(a.code).toEqual(a.email.toUpperCase());
+				expect(a.renewed).toEqual(next_day(a.opened));
+				expect(a.archived).toBeNull();
+			});
+
+			repo.GetTable("Visits").DataRows.map(v => {
+				const account = v.DataValues.Account.DataValues;
+				expect(v.DataValues.account_code).toEqual(account.email.toUpperCase());
+				expect(v.DataValues.visited).toEqual(next_day(account.opened));
+				expect(v.DataValues.nickname).toBeNull();
+			});
+		});
+	});
+
+	test("Unknown functions and bad arguments report the token", () => {
+		const thing = (generator: string) => {
+			const schema = CrudioJson.LoadJson("test/unit/data/functions.json");
+			schema.entities.Thing = { inherits: "Entity", count: 1, fields: { name: { generator } } };
+			return new CrudioDataModel(schema);
+		};
+
+		expect(() => thing("[shout(!id)]")).toThrow(/unknown function 'shout'.*\[shout\(!id\)\].*Thing/);
+		expect(() => thing("[date_format('tomorrow','yyyy')]")).toThrow("not a valid date");
+	});
+});
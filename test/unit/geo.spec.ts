@@ -0,0 +1,37 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+import CrudioGeo from "../../src/CrudioGeo";
+import { CrudioJson } from "../../src/CrudioJson";
+
+describe("Geospatial generators", () => {
+	test("Locations inside a bounding box, a polygon and a radius", () => {
+		const triangle: number[][] = CrudioJson.LoadJson("test/unit/data/geo.json").generators[1].values.geo.polygon;
+		const repo = CrudioDataModel.FromJson("test/unit/data/geo.json");
+
+		for (var i = 0; i < 200; i++) {
+			const [lon, lat] = repo.GetGeneratedValue("in_box").coordinates;
+			expect(lon >= 115.0 && lon <= 115.3 && lat >= -34.1 && lat <= -33.8).toEqual(true);
+
+			const point = repo.GetGeneratedValue("in_polygon");
+			expect(point.type).toEqual("Point");
+			expect(CrudioGeo.Contains(triangle, point.coordinates)).toEqual(true);
+			expect(point.coordinates[0].toString()).toMatch(/^\d+(\.\d{1,4})?$/);
+
+			expect(CrudioGeo.Distance([151.2093, -33.8688], repo.GetGeneratedValue("in_radius").coordinates)).toBeLessThanOrEqual(2001);
+		}
+
+		expect(() => repo.GetGeneratedValue("broken")).toThrow("generator 'broken' - Error: bbox must be [west, south, east, north]");
+	});
+
+	test("Devices are clustered around their site", () => {
+		const repo = CrudioDataModel.FromJson("datamodel/datamodel.json", true, "datamodel/blocks/iot.json");
+		const devices = repo.GetTable("Devices").DataRows;
+
+		expect(devices.length).toEqual(10);
+
+		devices.map(d => {
+			const site = d.DataValues.DeviceSite.DataValues.location;
+			expect(CrudioGeo.IsPoint(site)).toEqual(true);
+			expect(CrudioGeo.Distance(site.coordinates, d.DataValues.location.coordinates)).toBeLessThanOrEqual(251);
+		});
+	});
+});
@@ -0,0 +1,49 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+import { CrudioJson } from "../../src/CrudioJson";
+
+describe("Hierarchies", () => {
+	const CategoryModel = (hierarchy: Record<string, unknown>, relationship: Record<string, unknown> = {}) => {
+		const schema = CrudioJson.LoadJson("test/unit/data/hierarchy.json");
+		schema.entities.Category.relationships[0] = { type: "one", to: "Category", hierarchy, ...relationship };
+
+		return new CrudioDataModel(schema);
+	};
+
+	test("Entities are created as a tree with the specified roots, depth and branching", () => {
+		const rows = CrudioDataModel.FromJson("test/unit/data/hierarchy.json").GetTable("Categorys").DataRows;
+
+		expect(rows.length).toEqual(2 * (1 + 3 + 9));
+		expect(rows.filter(r => r.DataValues.Parent === null).length).toEqual(2);
+
+		rows.map(r => {
+			// walking up the tree always reaches a root, so there are no cycles
+			var level = 1;
+			for (var p = r.DataValues.Parent; p; p = p.DataValues.Parent) level++;
+			expect(level).toBeLessThanOrEqual(3);
+
+			expect(r.DataValues.Children.length).toEqual(level < 3 ? 3 : 0);
+			r.DataValues.Children.map((c: any) => expect(c.DataValues.Parent).toBe(r));
+			expect(r.DataValues.Category).toBeUndefined();
+		});
+
+		const named = CategoryModel({ depth: 2, branching: 4, parent: "Manager", children: "Reports" }).GetTable("Categorys").DataRows;
+		expect(named.length).toEqual(5);
+		expect(named[0].DataValues.Reports.length).toEqual(4);
+		expect(named[1].DataValues.Manager).toBe(named[0]);
+		expect(named[0].EntityDefinition.HierarchyRelationship.FromColumn).toEqual("Manager");
+	});
+
+	test("Hierarchies must be optional relationships from an entity to itself", () => {
+		expect(() => CategoryModel({ depth: 0, branching: 2 })).toThrow("the depth of a hierarchy must be a whole number greater than 0");
+		expect(() => CategoryModel({ depth: 2, branching: 2 }, { required: true })).toThrow("the roots of a hierarchy have no parent");
+		expect(() => CategoryModel({ depth: 2, branching: 2, parent: "Up", children: "Up" })).toThrow("must have different names");
+
+		const schema = CrudioJson.LoadJson("test/unit/data/hierarchy.json");
+		schema.entities = {
+			Shop: { inherits: "Entity" },
+			Staff: { inherits: "Entity", relationships: [{ type: "one", to: "Shop", hierarchy: { depth: 2, branching: 2 } }] },
+		};
+
+		expect(() => new CrudioDataModel(schema)).toThrow("a hierarchy must be a one to many relationship from an entity to itself");
+	});
+});
@@ -0,0 +1,22 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+
+describe("JSON generators", () => {
+	test("JSON generators create nested objects", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/jsonvalues.json");
+
+		repo.GetTable("Samples").DataRows.map(s => {
+			const data = s.DataValues.data;
+
+			expect(data.levels.length).toEqual(2);
+			data.levels.map((l: any) => expect(typeof l).toEqual("number"));
+			expect(typeof data.site.site).toEqual("string");
+			expect(data.site.level).toBeGreaterThanOrEqual(10);
+			expect(data.note).toMatch(/^level 1\d$/);
+			expect(data.ok).toEqual(true);
+
+			expect(JSON.parse(s.DataValues.text.slice(5)).site).toBeDefined();
+		});
+
+		expect(repo.ToString()).toContain('"levels"');
+	});
+});
@@ -0,0 +1,62 @@
+import * as path from "path";
+
+import CrudioDataModel from "../../src/CrudioDataModel";
+
+describe("Locales", () => {
+	const LocaleModel = (locale: string) => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/locales.json", false);
+		repo.Locale = locale;
+		repo.FillDataTables();
+
+		return repo;
+	};
+
+	test("Names, addresses and email addresses resolve through the locale", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/locales.json");
+
+		repo.GetTable("Contacts").DataRows.map(c => {
+			const v = c.DataValues;
+			expect(v.address).toMatch(/^\S+(straße|weg|allee|gasse|platz) \d+, \d{5} \D+$/);
+			expect(v.phone).toMatch(/^01[5-7]\d \d{7}$/);
+			expect(v.email).toMatch(/^[a-z]+\.[a-z]+@[a-z-]+\.(de|com|net)$/);
+		});
+
+		const lastnames = repo.GetTable("Contacts").DataRows.map(c => c.DataValues.lastname);
+		expect(lastnames.some(n => /[äöüß]/.test(n) || ["Müller", "Schmidt", "Schneider", "Fischer", "Weber"].includes(n))).toEqual(true);
+	});
+
+	test("A weighted mix of locales keeps each entity in one locale", () => {
+		const repo = LocaleModel("en-US:1;ja-JP:1");
+		const japanese = "Sato;Suzuki;Takahashi;Tanaka;Watanabe;Ito;Yamamoto;Nakamura;Kobayashi;Kato;Yoshida;Yamada;Sasaki;Yamaguchi;Matsumoto;Inoue;Kimura;Hayashi;Shimizu;Yamazaki;Mori;Abe;Ikeda;Hashimoto;Ishikawa;Ogawa;Fujita;Okada;Goto;Hasegawa".split(";");
+		const rows = repo.GetTable("Contacts").DataRows;
+
+		rows.map(c => {
+			const v = c.DataValues;
+			expect(["en-US", "ja-JP"]).toContain(c.Locale);
+			expect(japanese.includes(v.lastname)).toEqual(c.Locale === "ja-JP");
+			expect(v.phone).toMatch(c.Locale === "ja-JP" ? /^0[789]0-\d{4}-\d{4}$/ : /^\([2-9]\d{2}\) [2-9]\d{2}-\d{4}$/);
+			expect(v.email.startsWith(`${v.firstname.toLowerCase()}.${v.lastname.toLowerCase()}@`)).toEqual(true);
+		});
+
+		expect(rows.filter(c => c.Locale === "ja-JP").length).toBeGreaterThan(5);
+		expect(rows.filter(c => c.Locale === "en-US").length).toBeGreaterThan(5);
+
+		expect(() => LocaleModel("xx-XX")).toThrow("unknown locale 'xx-XX'");
+	});
+
+	test("Locale packs are files relative to the data model file", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/localepack.json");
+		const pack = path.join("test/unit/data", "pack.json");
+		const rows = repo.GetTable("Contacts").DataRows;
+
+		expect(repo.Locale).toEqual(`${pack}:1;de-DE:1`);
+
+		rows.map(c => {
+			expect([pack, "de-DE"]).toContain(c.Locale);
+			expect(c.DataValues.phone === "555-0100").toEqual(c.Locale === pack);
+			expect(c.DataValues.lastname.length).toBeGreaterThan(0);
+		});
+
+		expect(rows.filter(c => c.Locale === pack).length).toBeGreaterThan(5);
+	});
+});
@@ -0,0 +1,52 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+import { CrudioJson } from "../../src/CrudioJson";
+
+describe("Many to many relationships", () => {
+	const Links = (repo: CrudioDataModel) => {
+		const rows = repo.GetTable("PostLabels").DataRows;
+		return rows.map(r => `${r.DataValues.PostId} ${r.DataValues.LabelId}`);
+	};
+
+	const Count = (links: string[], index: number, id: string) => links.filter(l => l.split(" ")[index] === id).length;
+
+	const LinkModel = (posts: number, labels: number, relationship: Record<string, unknown>) => {
+		const schema = CrudioJson.LoadJson("test/unit/data/manytomany.json");
+		schema.entities.Post.count = posts;
+		schema.entities.Label.count = labels;
+		schema.entities.Post.relationships[0] = { type: "many", to: "Label", ...relationship };
+
+		return new CrudioDataModel(schema);
+	};
+
+	test("Pairs are distinct, and each side is connected within its bounds", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/manytomany.json");
+		const links = Links(repo);
+
+		expect(links.length).toEqual(30 * 8);
+		expect(new Set(links).size).toEqual(links.length);
+
+		const bounded = LinkModel(30, 8, { min: 1, max: 3, target_max: 9 });
+		const bounded_links = Links(bounded);
+		expect(new Set(bounded_links).size).toEqual(bounded_links.length);
+		bounded.GetTable("Posts").DataRows.map(p => expect(Count(bounded_links, 0, p.DataValues.id)).toBeGreaterThanOrEqual(1));
+		bounded.GetTable("Posts").DataRows.map(p => expect(Count(bounded_links, 0, p.DataValues.id)).toBeLessThanOrEqual(3));
+		bounded.GetTable("Labels").DataRows.map(l => expect(Count(bounded_links, 1, l.DataValues.id)).toBeLessThanOrEqual(9));
+	});
+
+	test("Coverage connects every related entity", () => {
+		const repo = LinkModel(10, 40, { count: 4, coverage: true });
+		const links_all = Links(repo);
+		expect(links_all.length).toEqual(40);
+		repo.GetTable("Labels").DataRows.map(l => expect(Count(links_all, 1, l.DataValues.id)).toEqual(1));
+
+		const covered = LinkModel(30, 40, { min: 0, max: 5, target_min: 2 });
+		const links = Links(covered);
+		covered.GetTable("Labels").DataRows.map(l => expect(Count(links, 1, l.DataValues.id)).toBeGreaterThanOrEqual(2));
+		covered.GetTable("Posts").DataRows.map(p => expect(Count(links, 0, p.DataValues.id)).toBeLessThanOrEqual(5));
+
+		expect(() => LinkModel(10, 11, { count: 1, coverage: true })).toThrow("11 Labels need at least 1 connections each, but 10 Posts can have at most 1 connections each");
+		expect(() => LinkModel(30, 8, { min: 3, target_max: 2 })).toThrow("30 Posts need at least 3 connections each, but 8 Labels can have at most 2 connections each");
+		expect(() => LinkModel(30, 8, { min: 9 })).toThrow("each of Posts needs 9 different Labels, but there are only 8");
+		expect(() => LinkModel(30, 8, { target_min: 3, target_max: 1 })).toThrow("where 0 <= target_min <= target_max");
+	});
+});
@@ -0,0 +1,30 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+import { CrudioJson } from "../../src/CrudioJson";
+
+describe("Optional fields", () => {
+	test("Optional fields are left empty at the null rate", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/nullrate.json");
+
+		const rows = repo.GetTable("Members").DataRows;
+		const empty = rows.filter(r => r.DataValues.middle_name === null);
+
+		expect(empty.length).toBeGreaterThan(60);
+		expect(empty.length).toBeLessThan(140);
+		empty.map(r => expect(r.DataValues.label).toEqual(`${r.DataValues.given_name} `));
+
+		rows.map(r => {
+			expect(r.DataValues.given_name).not.toBeNull();
+			expect(r.DataValues.mobile).toBeNull();
+			expect(r.DataValues.copy_of_mobile).toBeNull();
+		});
+
+		const field = (options: Record<string, unknown>) => {
+			const schema = CrudioJson.LoadJson("test/unit/data/nullrate.json");
+			schema.entities.Member.fields.nickname = { generator: "[firstname]", ...options };
+			return new CrudioDataModel(schema);
+		};
+
+		expect(() => field({ required: true, nullRate: 0.5 })).toThrow("required");
+		expect(() => field({ nullRate: 2 })).toThrow("from 0 to 1");
+	});
+});
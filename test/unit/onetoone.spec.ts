@@ -0,0 +1,56 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+import { CrudioJson } from "../../src/CrudioJson";
+
+describe("One to one relationships", () => {
+	const ProfileModel = (profiles: number, relationship: Record<string, unknown>) => {
+		const schema = CrudioJson.LoadJson("test/unit/data/onetoone.json");
+		schema.entities.MemberProfile.count = profiles;
+		schema.entities.MemberProfile.relationships[0] = { type: "single", to: "Member", ...relationship };
+
+		return new CrudioDataModel(schema);
+	};
+
+	test("Each related entity is connected once at most, and both entities refer to each other", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/onetoone.json");
+		const profiles = repo.GetTable("MemberProfiles").DataRows;
+		const members = profiles.map(p => p.DataValues.Member);
+
+		expect(new Set(members).size).toEqual(6);
+		members.map((m, i) => expect(m.DataValues.MemberProfile).toBe(profiles[i]));
+		repo.GetTable("Members").DataRows.map(m => expect(Array.isArray(m.DataValues.MemberProfiles)).toEqual(false));
+
+		// optional relationships leave entities unconnected when there are not enough related entities
+		expect(ProfileModel(12, {}).GetTable("MemberProfiles").DataRows.filter(p => p.DataValues.Member).length).toEqual(10);
+		expect(() => ProfileModel(12, { required: true })).toThrow("is required, but there are 12 MemberProfiles and only 10 Members");
+	});
+
+	test("Entities can be created for each related entity", () => {
+		const repo = ProfileModel(1, { min: 1 });
+		const members = repo.GetTable("Members").DataRows;
+
+		expect(repo.GetTable("MemberProfiles").DataRows.length).toEqual(10);
+		members.map(m => expect(m.DataValues.MemberProfile.DataValues.Member).toBe(m));
+
+		expect(() => ProfileModel(1, { min: 2 })).toThrow("or for single relationships where max is 1");
+		expect(() => ProfileModel(1, { type: "double" })).toThrow("which must be one, single or many");
+	});
+
+	test("Entities connected by default are each connected to a different related entity", () => {
+		const DeskModel = (clerks: number, relationship: Record<string, unknown>) => {
+			const schema = CrudioJson.LoadJson("test/unit/data/desks.json");
+			schema.entities.Clerk.count = clerks;
+			schema.entities.Clerk.relationships[0] = { type: "single", to: "Desk", default: "status:free", ...relationship };
+
+			return new CrudioDataModel(schema);
+		};
+
+		const clerks = CrudioDataModel.FromJson("test/unit/data/desks.json").GetTable("Clerks").DataRows;
+		const desks = clerks.map(c => c.DataValues.Desk);
+
+		expect(new Set(desks).size).toEqual(6);
+		desks.map((d, i) => expect(d.DataValues.Clerk).toBe(clerks[i]));
+
+		expect(DeskModel(12, {}).GetTable("Clerks").DataRows.filter(c => c.DataValues.Desk).length).toEqual(10);
+		expect(() => DeskModel(12, { required: true })).toThrow("is required, but there are 12 Clerks and only 10 Desks with status 'free'");
+	});
+});
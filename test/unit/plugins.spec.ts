@@ -0,0 +1,58 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+import { CrudioJson } from "../../src/CrudioJson";
+
+describe("Plugins", () => {
+	test("Generators exported by a plugin receive the entity and the seeded random number generator", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/plugins/accounts.json");
+		const accounts = repo.GetTable("Accounts").DataRows.map(a => a.DataValues);
+
+		accounts.map(a => {
+			expect(a.card).toMatch(/^4\d{15}$/);
+
+			const sum = a.card
+				.split("")
+				.reverse()
+				.map((d: string, i: number) => (i % 2 === 1 ? (+d * 2 > 9 ? +d * 2 - 9 : +d * 2) : +d))
+				.reduce((x: number, y: number) => x + y, 0);
+			expect(sum % 10).toEqual(0);
+
+			expect(a.code).toEqual(`${a.lastname.toUpperCase()}-${a.card.slice(-4)}`);
+			expect(a.tail).toEqual(a.card.slice(-4));
+		});
+
+		const again = CrudioDataModel.FromJson("test/unit/plugins/accounts.json").GetTable("Accounts").DataRows.map(a => a.DataValues.card);
+		expect(again).toEqual(accounts.map(a => a.card));
+	});
+
+	test("Plugin errors name the plugin and the entity", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/plugins/accounts.json");
+		expect(() => repo.GetGeneratedValue("account_code")).toThrow("generator 'account_code' in plugin 'test/unit/plugins/codes.ts' failed - an entity is required");
+
+		const schema = CrudioJson.LoadJson("test/unit/plugins/accounts.json");
+		schema.plugins = ["test/unit/plugins/missing.ts"];
+		expect(() => new CrudioDataModel(schema)).toThrow("unable to find plugin 'test/unit/plugins/missing.ts'");
+	});
+
+	test("Plugins are loaded relative to the data model file, and their functions belong to the data model", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/plugins/accounts.json");
+		const cards = repo.GetTable("Accounts").DataRows.map(a => a.DataValues.card);
+
+		repo.GetTable("Accounts").DataRows.map(a => expect(a.DataValues.tail).toEqual(a.DataValues.card.slice(-4)));
+
+		// plugins are loaded again when the data model is deserialised
+		const loaded = CrudioDataModel.FromString(repo.ToString());
+		loaded.FillDataTables();
+		expect(loaded.GetTable("Accounts").DataRows.map(a => a.DataValues.card)).toEqual(cards);
+
+		// functions are not available to other data models
+		const schema = CrudioJson.LoadJson("test/unit/plugins/accounts.json");
+		delete schema.plugins;
+		schema.entities = { Thing: { inherits: "Entity", count: 1, fields: { name: { generator: "[shout(last_digits('1234',2))]" } } } };
+
+		const other = new CrudioDataModel(schema, false);
+		expect(() => other.FillDataTables()).toThrow("unknown function 'last_digits'");
+
+		other.RegisterFunction("last_digits", args => String(args[0]).slice(-Number(args[1])));
+		expect(() => other.FillDataTables()).toThrow("unknown function 'shout'");
+	});
+});
@@ -0,0 +1,34 @@
+import CrudioDataModel from "../../../src/CrudioDataModel";
+import CrudioEntityInstance from "../../../src/CrudioEntityInstance";
+import CrudioRandom from "../../../src/CrudioRandom";
+
+/**
+ * Sixteen digit card number with a valid Luhn check digit
+ */
+export const card_number = (entity: CrudioEntityInstance, datamodel: CrudioDataModel, random: CrudioRandom): string => {
+	const digits = [4];
+	while (digits.length < 15) digits.push(Math.floor(random.Next() * 10));
+
+	const sum = digits
+		.slice()
+		.reverse()
+		.map((d, i) => (i % 2 === 0 ? (d * 2 > 9 ? d * 2 - 9 : d * 2) : d))
+		.reduce((a, b) => a + b, 0);
+
+	return [...digits, (10 - (sum % 10)) % 10].join("");
+};
+
+/**
+ * Account code built from values which have already been generated for the entity
+ */
+export const account_code = (entity: CrudioEntityInstance): string => {
+	if (!entity) throw new Error("an entity is required");
+	return `${entity.DataValues.lastname.toUpperCase()}-${entity.DataValues.card.slice(-4)}`;
+};
+
+/**
+ * Token functions, e.g. [last_digits(!card,4)]
+ */
+export const functions = {
+	last_digits: (args: any[]): string => String(args[0]).slice(-Number(args[1] ?? 4)),
+};
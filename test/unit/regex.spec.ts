@@ -0,0 +1,66 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+import { CrudioJson } from "../../src/CrudioJson";
+import CrudioRegex from "../../src/CrudioRegex";
+import { ICrudioGenerator } from "../../src/CrudioTypes";
+
+describe("Regex generators", () => {
+	test("Regex generator creates matching and unique values", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/regex.json");
+		const generators: ICrudioGenerator[] = CrudioJson.LoadJson("test/unit/data/regex.json").generators;
+
+		generators
+			.filter(g => g.name !== "broken")
+			.map(g => {
+				const regex = (g.values as Record<string, any>).regex;
+				const pattern = new RegExp(`^(?:${regex.pattern ?? regex})$`);
+
+				for (var i = 0; i < 50; i++) {
+					expect(repo.GetGeneratedValue(g.name)).toMatch(pattern);
+				}
+			});
+
+		const plates = repo.GetTable("Cars").DataRows.map(c => c.DataValues.plate);
+		expect(new Set(plates).size).toEqual(plates.length);
+
+		expect(() => repo.GetGeneratedValue("broken")).toThrow("broken");
+	});
+
+	test("Generated values match the pattern", () => {
+		const patterns = ["^[a-z]{2,4}$", "^ab|cd$", "(?:x|y)\\.\\d+", "[\\w.-]+@[a-z]+\\.com", "\\D\\W\\S", "a\\tb\\r?\\n", "[^\\d\\s]{3}", "(a|b(c|d)*)+?"];
+
+		patterns.map(p => {
+			for (var i = 0; i < 50; i++) {
+				const value = CrudioRegex.Generate(p);
+				expect(new RegExp("^(?:" + p + ")$").test(value)).toEqual(true);
+			}
+		});
+	});
+
+	test("Syntax which can not be generated is rejected", () => {
+		const unsupported: Record<string, string> = {
+			"(a)\\1": "\\1",
+			"a\\bc": "\\b",
+			"a\\Bc": "\\B",
+			"\\u0041\\x42": "\\u",
+			"a\\x42": "\\x",
+			"\\0": "\\0",
+			"\\cA": "\\c",
+			"\\p{L}": "\\p",
+			"(?<name>a)\\k<name>": "(?<",
+			"a(?=b)": "(?=",
+			"a(?!b)": "(?!",
+			"(?<=a)b": "(?<",
+			"(?i)abc": "(?i",
+			"a^b": "^",
+			"a$b": "$",
+			"(^a)": "^",
+		};
+
+		Object.entries(unsupported).map(([pattern, syntax]) => {
+			expect(() => CrudioRegex.Generate(pattern)).toThrow(`unsupported regex syntax '${syntax}'`);
+		});
+
+		expect(() => CrudioRegex.Generate("a*?")).not.toThrow();
+		expect(() => CrudioRegex.Generate("*a")).toThrow("quantifier '*' at position 0 has nothing to repeat");
+	});
+});
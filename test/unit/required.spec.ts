@@ -0,0 +1,47 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+import { CrudioJson } from "../../src/CrudioJson";
+
+describe("Required relationships", () => {
+	const ShopModel = (shops: number, relationship: Record<string, unknown> = {}) => {
+		const schema = CrudioJson.LoadJson("test/unit/data/required.json");
+		schema.entities.Shop.count = shops;
+		schema.entities.Staff.relationships[0] = { type: "one", to: "Shop", ...relationship };
+
+		return new CrudioDataModel(schema);
+	};
+
+	test("Optional relationships connect a share of entities, and required relationships connect every entity", () => {
+		const connected = (repo: CrudioDataModel) => repo.GetTable("Staffs").DataRows.filter(s => s.DataValues.Shop).length;
+
+		const optional = connected(ShopModel(5, { fillRate: 0.25 }));
+		expect(optional).toBeGreaterThan(30);
+		expect(optional).toBeLessThan(70);
+
+		expect(connected(ShopModel(5))).toEqual(200);
+		expect(connected(ShopModel(5, { fillRate: 0 }))).toEqual(0);
+		expect(connected(ShopModel(5, { required: true }))).toEqual(200);
+
+		expect(() => ShopModel(5, { required: true, fillRate: 0.5 })).toThrow("is required, so it can not have a fillRate");
+		expect(() => ShopModel(5, { fillRate: 2 })).toThrow("fillRate must be a number from 0 to 1");
+		expect(() => ShopModel(0, { required: true })).toThrow("is required, but there are no Shops to connect to");
+	});
+
+	test("Lookups through a relationship which is not connected are empty", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/required.json");
+
+		const staff = repo.GetTable("Staffs").DataRows.map(s => s.DataValues);
+		const connected = staff.filter(s => s.Shop);
+		expect(connected.length).toBeGreaterThan(0);
+		expect(connected.length).toBeLessThan(200);
+
+		staff.map(s => {
+			if (s.Shop) {
+				expect(s.shop_name).toEqual(s.Shop.DataValues.name);
+				expect(s.email).toEqual(`x@${s.Shop.DataValues.name.replaceAll(" ", "").toLowerCase()}.com`);
+			} else {
+				expect(s.shop_name).toBeNull();
+				expect(s.email).toEqual("x@.com");
+			}
+		});
+	});
+});
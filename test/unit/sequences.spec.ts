@@ -0,0 +1,19 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+
+describe("Sequence generators", () => {
+	test("Sequences with format masks and scopes", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/sequences.json");
+
+		expect(repo.GetGeneratedValue("ticket")).toEqual(100);
+		expect(repo.GetGeneratedValue("ticket")).toEqual(110);
+
+		const invoices = repo.GetTable("Invoices").DataRows;
+		expect(invoices.map(i => Number(i.DataValues.line))).toEqual(invoices.map((i, index) => index + 1));
+
+		repo.GetTable("Companys").DataRows.map(c => {
+			const numbers = invoices.filter(i => i.DataValues.Company === c).map(i => i.DataValues.number);
+			expect(numbers[0]).toEqual("INV-000001");
+			expect(numbers[numbers.length - 1]).toEqual(`INV-${String(numbers.length).padStart(6, "0")}`);
+		});
+	});
+});
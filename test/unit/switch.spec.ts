@@ -0,0 +1,32 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+import { CrudioJson } from "../../src/CrudioJson";
+
+describe("Switch generators", () => {
+	test("Switch generators branch on related entity values", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/switch.json");
+
+		repo.GetTable("Readings").DataRows.map(r => {
+			const value = r.DataValues.value;
+
+			switch (r.DataValues.Sensor.DataValues.name) {
+				case "heat":
+					expect(value).toMatch(/^1\d C$/);
+					break;
+				case "light":
+				case "volts":
+					expect(value).toEqual("on");
+					break;
+				default:
+					expect(value).toEqual("n/a");
+			}
+		});
+	});
+
+	test("A value without a branch or a default is an error", () => {
+		const schema = CrudioJson.LoadJson("test/unit/data/switch.json");
+		schema.generators[0].values = "heat;light";
+		schema.generators[1].values.switch = { field: "Sensor.name", when: { heat: "hot" } };
+
+		expect(() => new CrudioDataModel(schema)).toThrow("no branch for Sensor.name = 'light'");
+	});
+});
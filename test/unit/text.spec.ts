@@ -0,0 +1,27 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+
+describe("Text generators", () => {
+	test("Text generator creates sentences, paragraphs and markdown, from a corpus relative to the data model file", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/text.json");
+
+		expect(repo.GetGeneratedValue("summary").match(/[.!?](\s|$)/g).length).toBeGreaterThanOrEqual(3);
+
+		const story = repo.GetGeneratedValue("story").split("\n\n");
+		expect(story.length).toBeGreaterThanOrEqual(2);
+		expect(story.length).toBeLessThanOrEqual(3);
+
+		const page = repo.GetGeneratedValue("page").split("\n\n");
+		expect(page[0]).toMatch(/^# \S/);
+		expect(page.filter((p: string) => p.startsWith("## ")).length).toEqual(2);
+
+		const words = "the red fox jumps over dog hen sits on fence a sleeps in sun".split(" ");
+		repo.GetGeneratedValue("filler")
+			.replace(/\./g, "")
+			.toLowerCase()
+			.split(" ")
+			.map((w: string) => expect(words).toContain(w));
+
+		expect(repo.GetGeneratedValue("fox")).toMatch(/^(The|A) .*\.$/);
+		expect(() => repo.GetGeneratedValue("missing")).toThrow("test/unit/data/missing.txt");
+	});
+});
@@ -0,0 +1,57 @@
+import { DateTime } from "luxon";
+
+import CrudioDataModel from "../../src/CrudioDataModel";
+import { CrudioJson } from "../../src/CrudioJson";
+
+describe("Time series", () => {
+	const SeriesModel = (timeseries: Record<string, unknown>) => {
+		const schema = CrudioJson.LoadJson("test/unit/data/timeseries.json");
+		schema.entities.Reading.timeseries = { ...schema.entities.Reading.timeseries, jitter: 0, ...timeseries };
+
+		return new CrudioDataModel(schema);
+	};
+
+	test("Rows are created at intervals across the window for each parent", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/timeseries.json");
+		const sensors = repo.GetTable("Sensors").DataRows;
+		const readings = repo.GetTable("Readings").DataRows;
+
+		expect(readings.length).toEqual(3 * 25);
+
+		sensors.map(s => {
+			const series = readings.filter(r => r.DataValues.Sensor === s);
+			const times = series.map(r => DateTime.fromFormat(r.DataValues.taken, "yyyy-MM-dd HH:mm:ss", { zone: "utc" }).toMillis());
+
+			expect(series.length).toEqual(25);
+			expect(s.DataValues.Readings.length).toEqual(25);
+			expect(times.every((t, i) => i === 0 || t > times[i - 1])).toEqual(true);
+			expect(times.every((t, i) => Math.abs(t - (Date.UTC(2026, 0, 1) + i * 3600000)) <= 900000)).toEqual(true);
+			expect(series.every(r => r.DataValues.level >= 40 && r.DataValues.level <= 60)).toEqual(true);
+			expect(series[0].DataValues.level).toEqual(50);
+		});
+
+		expect(new Set(readings.map(r => r.DataValues.level)).size).toBeGreaterThan(10);
+	});
+
+	test("Values follow a trend and a seasonal cycle", () => {
+		const repo = SeriesModel({ values: { level: { start: 0, trend: 1, max: 20 }, cycle: { amplitude: 10, period: { days: 1 }, precision: 0 } } });
+		const readings = repo.GetTable("Readings").DataRows.slice(0, 25).map(r => r.DataValues);
+
+		expect(readings.map(r => r.level)).toEqual([...Array(25).keys()].map(i => Math.min(i, 20)));
+		expect(readings[0].taken).toEqual("2026-01-01 00:00:00");
+		expect(readings[6].cycle).toEqual(10);
+		expect(readings[18].cycle).toEqual(-10);
+		expect(readings[0].label).toEqual("level 0, cycle 0");
+
+		// values of zero can be looked up, while missing values are errors
+		const first = repo.GetTable("Readings").DataRows[0];
+		expect(repo.GetEntityFieldValueFromPath("level", first)).toEqual(0);
+		expect(repo.GetEntityFieldValueFromPath("Sensor.name", first)).toEqual(readings[0].Sensor.DataValues.name);
+		expect(() => repo.GetEntityFieldValueFromPath("Sensor.colour", first)).toThrow("'Sensor.colour' did not resolve from entity type 'Reading', because 'Sensor' has no value for 'colour'");
+		expect(() => repo.GetEntityFieldValueFromPath("Device.name", first)).toThrow("because 'Reading' has no related entity 'Device'");
+
+		expect(() => SeriesModel({ parent: "Device" })).toThrow("the time series of 'Reading' requires a one to many relationship to its parent 'Device'");
+		expect(() => SeriesModel({ interval: {} })).toThrow("must specify an interval");
+		expect(() => SeriesModel({ values: { speed: {} } })).toThrow("has values for 'speed', which is not a field of the entity");
+	});
+});
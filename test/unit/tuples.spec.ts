@@ -0,0 +1,31 @@
+import * as fs from "fs";
+
+import CrudioDataModel from "../../src/CrudioDataModel";
+import { CrudioJson } from "../../src/CrudioJson";
+
+describe("Tuple generators", () => {
+	test("Fields bind to the same row of a tuple generator", () => {
+		const rows: Record<string, string>[] = CrudioJson.LoadJson("test/unit/data/tuples.json").generators[0].values.tuple.rows;
+		const repo = CrudioDataModel.FromJson("test/unit/data/tuples.json");
+		const sites = repo.GetTable("Sites").DataRows.map(s => s.DataValues);
+
+		sites.map(s => {
+			const row = rows.find(r => r.city === s.city);
+			expect(s.label).toEqual(`${row.state} ${row.postcode}`);
+			expect(s.location).toEqual(row);
+		});
+
+		expect(new Set(sites.map(s => s.city)).size).toEqual(3);
+		expect(() => repo.GetGeneratedValue("addr.country")).toThrow("tuple generator 'addr' does not have a column 'country'. Columns are city, state, postcode");
+	});
+
+	test("Addresses use a consistent place, state and postcode", () => {
+		const localities = fs.readFileSync("datamodel/data/localities.csv", "utf8").split("\n").slice(1).filter(l => l);
+		const repo = CrudioDataModel.FromJson("test/unit/data/tuples.json");
+
+		repo.GetTable("Contacts").DataRows.map(c => {
+			const [, place, state, postcode] = c.DataValues.address.match(/^\S+, .+, (.+), (\S+) (\d{4})$/);
+			expect(localities).toContain(`${place},${state},${postcode}`);
+		});
+	});
+});
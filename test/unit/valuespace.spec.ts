@@ -0,0 +1,32 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+import { CrudioJson } from "../../src/CrudioJson";
+
+describe("Unique value space", () => {
+	test("Models which need more unique values than their generators can create fail before generating values", () => {
+		const ColourModel = (count: number, generator: string) => {
+			const schema = CrudioJson.LoadJson("test/unit/data/valuespace.json");
+			schema.entities.Colour.count = count;
+			schema.entities.Colour.fields.name.generator = generator;
+
+			return new CrudioDataModel(schema);
+		};
+
+		const repo = CrudioDataModel.FromJson("test/unit/data/valuespace.json");
+		expect(repo.GetTable("Colours").DataRows.map(r => r.DataValues.name).sort()).toEqual(["blue", "green", "red"]);
+
+		expect(() => ColourModel(4, "[colour]")).toThrow("Colour.name needs 4 unique values, but [colour] can create at most 3");
+		expect(() => ColourModel(7, "[shade] [colour]")).toThrow("Colour.name needs 7 unique values, but [shade] [colour] can create at most 6");
+		expect(() => ColourModel(100, "[colour] [1>30]")).toThrow("can create at most 87");
+		expect(() => ColourModel(100, "[colour] [uuid]")).not.toThrow();
+		expect(() => ColourModel(100, "[!~id] [colour]")).not.toThrow();
+	});
+
+	test("Large tables have unique numbers and strings", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/largetable.json");
+
+		const accounts = repo.GetTable("Accounts").DataRows;
+		expect(new Set(accounts.map(a => a.DataValues.code)).size).toEqual(20000);
+		expect(new Set(accounts.map(a => a.DataValues.ref)).size).toEqual(20000);
+		expect(repo.GetEntityDefinition("Account").UniqueValueCount("code")).toEqual(20000);
+	});
+});
@@ -0,0 +1,43 @@
+import CrudioDataModel from "../../src/CrudioDataModel";
+
+describe("Weighted lists", () => {
+	test("Weighted lists select values in proportion to their weights", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/weighted.json");
+
+		const roles: string[] = [];
+		for (var i = 0; i < 1000; i++) roles.push(repo.GetGeneratedValue("role"));
+
+		const staff = roles.filter(r => r === "Staff").length;
+		expect(staff).toBeGreaterThan(800);
+		expect(roles.filter(r => r === "Manager").length).toEqual(1000 - staff);
+		expect(repo.GetGeneratedValue("level")).toEqual("junior");
+	});
+
+	test("Values which contain an escaped colon are not weights", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/weighted.json");
+
+		const starts = new Set<string>();
+		const ratios = new Set<string>();
+
+		for (var i = 0; i < 100; i++) {
+			starts.add(repo.GetGeneratedValue("shift_start"));
+			ratios.add(repo.GetGeneratedValue("ratio"));
+		}
+
+		expect([...starts].sort()).toEqual(["09:00", "17:30"]);
+		expect([...ratios].sort()).toEqual(["1:2", "3:4"]);
+		repo.GetTable("Shifts").DataRows.map(s => expect(s.DataValues.start).toEqual("09:00"));
+
+		expect(() => repo.GetGeneratedValue("broken")).toThrow("the list '09:00;noon' gives a weight to some values but not others");
+	});
+
+	test("Weighted lists drive entity count and relationships", () => {
+		const repo = CrudioDataModel.FromJson("test/unit/data/weighted.json");
+
+		const roles = repo.GetTable("Roles").DataRows.map(r => r.DataValues.name);
+		expect(roles).toEqual(["Staff", "Director"]);
+
+		const directors = repo.GetTable("Persons").DataRows.filter(p => p.DataValues.Role.DataValues.name === "Director");
+		expect(directors.length).toEqual(1);
+	});
+});